@@ -0,0 +1,68 @@
+'use client';
+
+// Minimal SVG line chart (no chart lib): one series, time on x, value on y.
+export interface ChartPoint {
+  t: number; // epoch ms
+  v: number;
+}
+
+interface Props {
+  title: string;
+  points: ChartPoint[];
+  format: (v: number) => string;
+  stroke?: string;
+}
+
+const W = 640;
+const H = 180;
+const PAD = { top: 12, right: 16, bottom: 28, left: 64 };
+
+export default function SalesChart({ title, points, format, stroke = '#f5c518' }: Props) {
+  if (points.length === 0) {
+    return (
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-electric-gold mb-2">{title}</h2>
+        <p className="text-sm">No history yet.</p>
+      </div>
+    );
+  }
+
+  const ts = points.map(p => p.t);
+  const vs = points.map(p => p.v);
+  const tMin = Math.min(...ts), tMax = Math.max(...ts);
+  let vMin = Math.min(...vs), vMax = Math.max(...vs);
+  if (vMin === vMax) { vMin -= 1; vMax += 1; } // flat line: give it some room
+
+  const x = (t: number) =>
+    PAD.left + (tMax === tMin ? 0.5 : (t - tMin) / (tMax - tMin)) * (W - PAD.left - PAD.right);
+  const y = (v: number) =>
+    PAD.top + (1 - (v - vMin) / (vMax - vMin)) * (H - PAD.top - PAD.bottom);
+
+  const path = points.map(p => `${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`).join(' ');
+  const fmtDate = (t: number) =>
+    new Date(t).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-lg font-semibold text-electric-gold mb-2">{title}</h2>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto" role="img" aria-label={title}>
+        <line x1={PAD.left} y1={H - PAD.bottom} x2={W - PAD.right} y2={H - PAD.bottom} stroke="currentColor" opacity={0.4} />
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={H - PAD.bottom} stroke="currentColor" opacity={0.4} />
+
+        <text x={PAD.left - 6} y={y(vMax) + 4} textAnchor="end" fontSize="11" fill="currentColor">{format(vMax)}</text>
+        <text x={PAD.left - 6} y={y(vMin) + 4} textAnchor="end" fontSize="11" fill="currentColor">{format(vMin)}</text>
+        <text x={x(tMin)} y={H - 8} textAnchor="start" fontSize="11" fill="currentColor">{fmtDate(tMin)}</text>
+        {tMax !== tMin && (
+          <text x={x(tMax)} y={H - 8} textAnchor="end" fontSize="11" fill="currentColor">{fmtDate(tMax)}</text>
+        )}
+
+        <polyline points={path} fill="none" stroke={stroke} strokeWidth={2} />
+        {points.map(p => (
+          <circle key={p.t} cx={x(p.t)} cy={y(p.v)} r={2.5} fill={stroke}>
+            <title>{`${new Date(p.t).toLocaleString('en-GB')}: ${format(p.v)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
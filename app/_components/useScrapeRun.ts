@@ -0,0 +1,96 @@
+'use client';
+
+// Start a targeted scrape (POST /api/scrape as the signed-in user) and poll its
+// run until it stops running.
+import { useCallback, useEffect, useState } from 'react';
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import type { CrawlRequestStatus } from '@/lib/scrape/requests';
+
+const POLL_MS = 4000;
+const MAX_POLL_FAILURES = 3; // network errors in a row before polling gives up
+
+export function useScrapeRun(supabase: SupabaseClient | null) {
+  const [runId, setRunId] = useState<string | null>(null);
+  const [run, setRun] = useState<CrawlRequestStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const authHeader = useCallback(async (): Promise<Record<string, string> | null> => {
+    if (!supabase) return null;
+    const { data: { session } } =
+      await supabase.auth.getSession() as { data: { session: Session | null } };
+    return session ? { Authorization: `Bearer ${session.access_token}` } : null;
+  }, [supabase]);
+
+  const start = async (body: Record<string, unknown>) => {
+    setError(null);
+    setRun(null);
+    setRunId(null);
+    setStarting(true);
+    try {
+      const headers = await authHeader();
+      if (!headers) {
+        setError('Please sign in first.');
+        return;
+      }
+      const res = await fetch('/api/scrape', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json.error ?? `Request failed (${res.status})`);
+        return;
+      }
+      setRunId(json.run_id);
+    } catch {
+      // network error (or the session lookup failed): no response to report
+      setError('Could not reach the server. Please try again.');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!runId) return;
+    let stopped = false;
+    let failures = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      let status: CrawlRequestStatus;
+      try {
+        const headers = await authHeader();
+        const res = await fetch(`/api/scrape/runs/${runId}`, { headers: headers ?? {} });
+        if (stopped) return;
+        if (!res.ok) {
+          // the server answered: asking again won't change it
+          setError(`Could not load run status (${res.status})`);
+          return;
+        }
+        status = (await res.json()) as CrawlRequestStatus;
+      } catch {
+        if (stopped) return;
+        // network blips: keep polling for a while, then say so
+        if (++failures < MAX_POLL_FAILURES) {
+          timer = setTimeout(poll, POLL_MS);
+        } else {
+          setError('Lost contact while checking progress. Reload to see the result.');
+        }
+        return;
+      }
+      if (stopped) return;
+      failures = 0;
+      setRun(status);
+      if (status.status === 'running') timer = setTimeout(poll, POLL_MS);
+    };
+    poll();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [runId, authHeader]);
+
+  return { run, error, starting, start };
+}
@@ -0,0 +1,268 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Session } from '@supabase/supabase-js';
+import { coverageRatio, siteHealth, type RunSummary, type SiteHealth, type StatusCounts } from '@/lib/scrape/metrics';
+import SalesChart, { type ChartPoint } from '@/app/_components/SalesChart';
+import { useScrapeRun } from '@/app/_components/useScrapeRun';
+
+// Safe Supabase init (don’t throw at build)
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+let supabase: SupabaseClient | null = null;
+if (typeof window !== 'undefined' && supabaseUrl && supabaseAnonKey) {
+  supabase = createClient(supabaseUrl, supabaseAnonKey);
+}
+
+const HISTORY_DAYS = 14;
+const DRY_RUN_ITEMS = 20;
+
+interface Site {
+  id: string;
+  name: string;
+  enabled: boolean;
+  last_success_at: string | null;
+}
+
+interface Run extends RunSummary {
+  id: string;
+  site_id: string;
+  error: string | null;
+  pages_fetched: number | null;
+  rows_held: number | null;
+  http_status: StatusCounts | null;
+  duration_ms: number | null;
+}
+
+const HEALTH_STYLE: Record<SiteHealth, string> = {
+  ok: 'bg-green-600 text-white',
+  degraded: 'bg-electric-gold text-midnight-blue',
+  failing: 'bg-neon-red text-white',
+  stale: 'bg-orange-500 text-white',
+  unknown: 'bg-wolf-grey text-midnight-blue',
+};
+
+const fmtDate = (iso: string | null | undefined) =>
+  iso ? new Date(iso).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' }) : 'Never';
+const fmtPct = (r: number | null) => (r == null ? 'N/A' : `${Math.round(r * 100)}%`);
+const fmtDuration = (ms: number | null) => (ms == null ? 'N/A' : `${(ms / 1000).toFixed(1)}s`);
+const fmtStatus = (s: StatusCounts | null) =>
+  s && Object.keys(s).length
+    ? Object.entries(s).sort(([a], [b]) => a.localeCompare(b)).map(([k, n]) => `${k}×${n}`).join(' ')
+    : 'N/A';
+
+export default function AdminHealthPage() {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [runs, setRuns] = useState<Run[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const recrawl = useScrapeRun(supabase);
+
+  useEffect(() => {
+    if (!supabase) {
+      setErrorMsg('Supabase client not available. Check environment variables.');
+      setLoading(false);
+      return;
+    }
+
+    const fetchHealth = async () => {
+      setLoading(true);
+      setErrorMsg(null);
+
+      const { data: { session } } =
+        await supabase.auth.getSession() as { data: { session: Session | null } };
+      if (!session) {
+        setErrorMsg('Please sign in as an admin to view scrape health.');
+        setLoading(false);
+        return;
+      }
+      const { data: profile } = await supabase
+        .from('profiles').select('tier').eq('id', session.user.id).maybeSingle();
+      if (profile?.tier !== 'admin') {
+        setErrorMsg('Admins only.');
+        setLoading(false);
+        return;
+      }
+
+      const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const [sitesRes, runsRes] = await Promise.all([
+        supabase.from('sites').select('id,name,enabled,last_success_at').order('name'),
+        supabase
+          .from('scrape_runs')
+          .select('*')
+          .gte('finished_at', since)
+          .order('finished_at', { ascending: true }),
+      ]);
+
+      if (sitesRes.error || runsRes.error) {
+        console.error('Supabase SELECT error:', sitesRes.error ?? runsRes.error);
+        setErrorMsg('Could not load scrape health.');
+      } else {
+        setSites((sitesRes.data as Site[]) || []);
+        setRuns((runsRes.data as Run[]) || []);
+      }
+      setLoading(false);
+    };
+
+    fetchHealth();
+  }, []);
+
+  // newest first, per site
+  const runsBySite = useMemo(() => {
+    const out = new Map<string, Run[]>();
+    for (const r of [...runs].reverse()) {
+      if (!out.has(r.site_id)) out.set(r.site_id, []);
+      out.get(r.site_id)!.push(r);
+    }
+    return out;
+  }, [runs]);
+
+  const rows = sites.map(site => {
+    const siteRuns = runsBySite.get(site.id) ?? [];
+    return { site, last: siteRuns[0] as Run | undefined, health: siteHealth(siteRuns, site.last_success_at) };
+  });
+
+  const selectedRuns = useMemo(() => [...(runsBySite.get(selected ?? '') ?? [])].reverse(), [runsBySite, selected]);
+  const series = (v: (r: Run) => number | null): ChartPoint[] =>
+    selectedRuns.flatMap(r => {
+      const value = v(r);
+      return r.finished_at && value != null ? [{ t: new Date(r.finished_at).getTime(), v: value }] : [];
+    });
+
+  return (
+    <div className="min-h-screen bg-midnight-blue text-wolf-grey p-8">
+      <Link href="/results" className="text-sm underline">← Back to results</Link>
+      <h1 className="mt-4 text-3xl font-bold text-electric-gold mb-1">Scrape health</h1>
+      <Link href="/admin/quarantine" className="inline-block mb-4 text-sm underline">Rows held for review →</Link>
+
+      {errorMsg && <p className="my-4 text-neon-red">{errorMsg}</p>}
+
+      {loading ? (
+        <p>Loading...</p>
+      ) : !errorMsg && (
+        <>
+          <table className="w-full border-collapse border border-wolf-grey text-sm mb-8">
+            <thead>
+              <tr className="bg-electric-gold text-midnight-blue">
+                <th className="p-2 text-left">Site</th>
+                <th className="p-2 text-left">Health</th>
+                <th className="p-2 text-left">Last success</th>
+                <th className="p-2 text-right">Items</th>
+                <th className="p-2 text-right">Parse failures</th>
+                <th className="p-2 text-right">Held</th>
+                <th className="p-2 text-right">Price</th>
+                <th className="p-2 text-right">Totals</th>
+                <th className="p-2 text-right">Ends</th>
+                <th className="p-2 text-right">Duration</th>
+                <th className="p-2 text-left">HTTP</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ site, last, health }) => (
+                <tr
+                  key={site.id}
+                  onClick={() => setSelected(site.id)}
+                  className={`border-b border-wolf-grey cursor-pointer ${selected === site.id ? 'bg-white/10' : ''}`}
+                >
+                  <td className="p-2">{site.name}{!site.enabled && <span className="opacity-60"> (disabled)</span>}</td>
+                  <td className="p-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-bold ${HEALTH_STYLE[health]}`} title={last?.error ?? undefined}>
+                      {health}
+                    </span>
+                  </td>
+                  <td className="p-2">{fmtDate(site.last_success_at)}</td>
+                  <td className="p-2 text-right">{last?.items_ingested ?? 'N/A'}</td>
+                  <td className="p-2 text-right">{last?.parse_failures ?? 'N/A'}</td>
+                  <td className="p-2 text-right">{last?.rows_held ?? 'N/A'}</td>
+                  <td className="p-2 text-right">{fmtPct(coverageRatio(last?.field_coverage, 'entry_fee'))}</td>
+                  <td className="p-2 text-right">{fmtPct(coverageRatio(last?.field_coverage, 'totals'))}</td>
+                  <td className="p-2 text-right">{fmtPct(coverageRatio(last?.field_coverage, 'ends_at'))}</td>
+                  <td className="p-2 text-right">{fmtDuration(last?.duration_ms ?? null)}</td>
+                  <td className="p-2">{fmtStatus(last?.http_status ?? null)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {selected ? (
+            <section className="max-w-3xl">
+              <h2 className="text-xl font-bold text-electric-gold mb-2">
+                {sites.find(s => s.id === selected)?.name}: last {HISTORY_DAYS} days
+              </h2>
+
+              <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+                <button
+                  onClick={() => recrawl.start({ sites: [selected], force: true })}
+                  disabled={recrawl.starting || recrawl.run?.status === 'running'}
+                  className="bg-electric-gold text-midnight-blue font-bold py-1 px-3 rounded disabled:opacity-50"
+                >
+                  Re-crawl now
+                </button>
+                <button
+                  onClick={() => recrawl.start({ sites: [selected], dry_run: true, max_items: DRY_RUN_ITEMS })}
+                  disabled={recrawl.starting || recrawl.run?.status === 'running'}
+                  className="border border-electric-gold py-1 px-3 rounded disabled:opacity-50"
+                >
+                  Dry run ({DRY_RUN_ITEMS} items)
+                </button>
+                {recrawl.error && <span className="text-neon-red">{recrawl.error}</span>}
+                {recrawl.run && (
+                  <span>
+                    {recrawl.run.dry_run ? 'Dry run' : 'Crawl'} {recrawl.run.status}: {recrawl.run.progress.done} of {recrawl.run.progress.total} tasks
+                    {recrawl.run.jobs.some(j => j.error) && (
+                      <span className="text-neon-red"> · {recrawl.run.jobs.map(j => j.error).filter(Boolean).join('; ')}</span>
+                    )}
+                    {recrawl.run.not_queued.length > 0 && (
+                      <span className="text-neon-red"> · not queued: {recrawl.run.not_queued.map(n => `${n.site} (${n.reason})`).join('; ')}</span>
+                    )}
+                  </span>
+                )}
+              </div>
+
+              {!!recrawl.run?.preview?.length && (
+                <table className="w-full border-collapse border border-wolf-grey text-sm mb-6">
+                  <thead>
+                    <tr className="bg-electric-gold text-midnight-blue">
+                      <th className="p-2 text-left">Prize</th>
+                      <th className="p-2 text-right">Fee</th>
+                      <th className="p-2 text-right">Sold / total</th>
+                      <th className="p-2 text-left">Status</th>
+                      <th className="p-2 text-left">Would be</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recrawl.run.preview.map(p => (
+                      <tr key={p.url} className="border-b border-wolf-grey">
+                        <td className="p-2"><a href={p.url} target="_blank" className="underline">{p.prize}</a></td>
+                        <td className="p-2 text-right">{p.entry_fee ?? 'N/A'}</td>
+                        <td className="p-2 text-right">{p.tickets_sold ?? '?'} / {p.total_tickets ?? '?'}</td>
+                        <td className="p-2">{p.status ?? 'N/A'}</td>
+                        <td className="p-2">{p.change}{p.anomalies?.length ? ` (${p.anomalies.join(', ')})` : ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <SalesChart title="Items ingested" points={series(r => r.items_ingested)} format={v => String(Math.round(v))} />
+              <SalesChart
+                title="Price coverage"
+                points={series(r => coverageRatio(r.field_coverage, 'entry_fee'))}
+                format={v => fmtPct(v)}
+              />
+              <SalesChart title="Parse failures" points={series(r => r.parse_failures)} format={v => String(Math.round(v))} stroke="#ff3b3b" />
+              <SalesChart title="Duration" points={series(r => r.duration_ms)} format={v => fmtDuration(v)} />
+            </section>
+          ) : (
+            <p className="text-sm">Select a site to chart its runs over time.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Session } from '@supabase/supabase-js';
+import { REJECTION_TTL_DAYS, type Anomaly } from '@/lib/scrape/anomalies';
+
+// Safe Supabase init (don’t throw at build)
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+let supabase: SupabaseClient | null = null;
+if (typeof window !== 'undefined' && supabaseUrl && supabaseAnonKey) {
+  supabase = createClient(supabaseUrl, supabaseAnonKey);
+}
+
+interface Held {
+  id: number;
+  competition_id: string;
+  url: string;
+  site_name: string | null;
+  anomalies: Anomaly[];
+  created_at: string;
+}
+
+const ANOMALY_LABEL: Record<Anomaly['kind'], string> = {
+  sold_decreased: 'Tickets sold went down',
+  total_changed: 'Total tickets changed',
+  fee_jump: 'Entry fee jumped',
+  prize_changed: 'Different prize on this URL',
+};
+
+const fmtDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function AdminQuarantinePage() {
+  const [held, setHeld] = useState<Held[]>([]);
+  const [busy, setBusy] = useState<Record<number, boolean>>({});
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!supabase) {
+      setErrorMsg('Supabase client not available. Check environment variables.');
+      setLoading(false);
+      return;
+    }
+
+    const fetchHeld = async () => {
+      setLoading(true);
+      setErrorMsg(null);
+
+      const { data: { session } } =
+        await supabase.auth.getSession() as { data: { session: Session | null } };
+      if (!session) {
+        setErrorMsg('Please sign in as an admin to review held rows.');
+        setLoading(false);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('competition_quarantine')
+        .select('id,competition_id,url,site_name,anomalies,created_at')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+      if (error) {
+        console.error('Supabase SELECT error:', error);
+        setErrorMsg('Could not load held rows.');
+      } else {
+        setHeld((data as Held[]) || []);
+      }
+      setLoading(false);
+    };
+
+    fetchHeld();
+  }, []);
+
+  const review = async (id: number, approve: boolean) => {
+    if (!supabase) return;
+    setBusy(prev => ({ ...prev, [id]: true }));
+    const { error } = await supabase.rpc('review_quarantine', { p_id: id, p_approve: approve });
+    if (error) {
+      console.error('review_quarantine error:', error);
+      alert(`Could not ${approve ? 'approve' : 'reject'}: ${error.message}`);
+    } else {
+      setHeld(prev => prev.filter(h => h.id !== id));
+    }
+    setBusy(prev => ({ ...prev, [id]: false }));
+  };
+
+  return (
+    <div className="min-h-screen bg-midnight-blue text-wolf-grey p-8">
+      <Link href="/admin/health" className="text-sm underline">← Scrape health</Link>
+      <h1 className="mt-4 text-3xl font-bold text-electric-gold mb-2">Held for review</h1>
+      <p className="text-sm mb-4">
+        Scraped values that disagree implausibly with what we already show. Approve to publish them, reject to keep the stored values (the same values come back for review after {REJECTION_TTL_DAYS} days if the site still shows them).
+      </p>
+
+      {errorMsg && <p className="my-4 text-neon-red">{errorMsg}</p>}
+
+      {loading ? (
+        <p>Loading...</p>
+      ) : !errorMsg && held.length === 0 ? (
+        <p>Nothing held.</p>
+      ) : (
+        <table className="w-full border-collapse border border-wolf-grey text-sm">
+          <thead>
+            <tr className="bg-electric-gold text-midnight-blue">
+              <th className="p-2 text-left">Competition</th>
+              <th className="p-2 text-left">What changed</th>
+              <th className="p-2 text-left">Held</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {held.map(h => (
+              <tr key={h.id} className="border-b border-wolf-grey align-top">
+                <td className="p-2">
+                  <Link href={`/competitions/${h.competition_id}`} className="underline">{h.site_name ?? 'Competition'}</Link>
+                  <div className="text-xs opacity-70 break-all">
+                    <a href={h.url} target="_blank">{h.url}</a>
+                  </div>
+                </td>
+                <td className="p-2">
+                  <ul>
+                    {h.anomalies.map(a => (
+                      <li key={a.kind}>
+                        {ANOMALY_LABEL[a.kind]}: <span className="opacity-70">{String(a.previous)}</span> → <strong>{String(a.value)}</strong>
+                      </li>
+                    ))}
+                  </ul>
+                </td>
+                <td className="p-2 whitespace-nowrap">{fmtDate(h.created_at)}</td>
+                <td className="p-2 whitespace-nowrap">
+                  <button
+                    onClick={() => review(h.id, true)}
+                    disabled={!!busy[h.id]}
+                    className="mr-2 bg-electric-gold text-midnight-blue font-bold py-1 px-3 rounded-md disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => review(h.id, false)}
+                    disabled={!!busy[h.id]}
+                    className="bg-neon-red text-white font-bold py-1 px-3 rounded-md disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
 // app/api/cron/route.ts
+// Dispatcher: queues a full crawl for every site that is due and a refresh of
+// the fast-moving competitions (lib/scrape/schedule.ts), then works through the
+// queue for CRAWL_BUDGET_MS; whatever is left is resumed by the next invocation
+// (lib/scrape/jobs.ts). vercel.json runs it every 10 minutes.
 import { NextRequest, NextResponse } from 'next/server';
-import { POST as runScrape } from '../scrape/route';
 import { createClient } from '@supabase/supabase-js';
+import { enqueueDueJobs, enqueueRefreshJobs, runWorker } from '@/lib/scrape/jobs';
+import { loadRules, loadSites } from '@/lib/scrape/siteCrawl';
 
 export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// leaves room for the close-out queries below inside maxDuration
+const CRAWL_BUDGET_MS = 45_000;
 
 export async function GET(req: NextRequest) {
+  const startedAt = Date.now();
   const CRON_SECRET = process.env.CRON_SECRET;
 
   // Verify Vercel Cron
@@ -14,39 +24,26 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  // Invoke scraper
-  const body = JSON.stringify({ tier: 'both', query: '' });
-  const internal = new NextRequest(new Request(req.nextUrl, {
-    method: 'POST',
-    headers: {
-      'content-type': 'application/json',
-      'x-cron-key': CRON_SECRET,
-    },
-    body,
-  }));
-
   try {
-    const scrapeRes = await runScrape(internal);
-
-    // >>> NEW: self-heal statuses after scrape
     const url = process.env.SUPABASE_URL!;
     const key = process.env.SUPABASE_SERVICE_KEY!; // use same key as scraper
     const supabase = createClient(url, key);
 
-    // close by time
-    const nowIso = new Date().toISOString();
-    const { error: e1 } = await supabase
-      .from('competitions')
-      .update({ is_closed: true })
-      .lt('ends_at', nowIso)
-      .eq('is_closed', false);
+    const rulesMap = await loadRules(supabase);
+    const sites = await loadSites(supabase, 'both');
+    const enqueued = await enqueueDueJobs(supabase, sites, rulesMap);
+    const refreshes = await enqueueRefreshJobs(supabase, sites, rulesMap);
+    const worker = await runWorker(supabase, rulesMap, startedAt + CRAWL_BUDGET_MS);
+
+    // competitions past their closing date → awaiting draw (025_competition_status.sql)
+    const { error: e1 } = await supabase.rpc('close_by_time');
     if (e1) console.error('cron close-by-time error:', e1.message);
 
-    // close by sell-out (needs SQL helper below)
+    // open competitions with every ticket sold → sold out
     const { error: e2 } = await supabase.rpc('close_by_sellout');
     if (e2) console.error('cron close-by-sellout error:', e2.message);
 
-    return scrapeRes;
+    return NextResponse.json({ enqueued, refreshes, ...worker }, { status: 200 });
   } catch (err: any) {
     console.error('Cron → scrape failed:', err);
     return NextResponse.json({ error: err?.message ?? 'Unknown error' }, { status: 500 });
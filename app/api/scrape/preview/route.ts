@@ -0,0 +1,94 @@
+// app/api/scrape/preview/route.ts
+// Dry-run a single page through an adapter: nothing is read from or written to
+// Supabase. Body: { url?, html?, adapter_key?, rules?, site_name?, timezone?, user_agent? }
+// — `html` wins over fetching `url`; `rules` are inline adapter_rules (validated
+// as usual); `timezone` is the site's IANA zone (default Europe/London). Fetching
+// `url` obeys robots.txt like a crawl does.
+import { NextRequest, NextResponse } from 'next/server';
+import { load } from 'cheerio';
+import { getAdapter } from '@/lib/scrape/adapters';
+import { isAuthorized } from '@/lib/scrape/auth';
+import { DEFAULT_USER_AGENT, fetchHtml, HttpError } from '@/lib/scrape/fetch';
+import { createCrawlPolicy } from '@/lib/scrape/robots';
+import { validateRules } from '@/lib/scrape/rules';
+import { collectPriceCandidates, extractPriceViaAnchor, readJsonLdProduct, readMetaPrice } from '@/lib/scrape/price';
+import { explainTotalsPatterns } from '@/lib/scrape/totals';
+import { DEFAULT_TIMEZONE } from '@/lib/scrape/dates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type PreviewBody = {
+  url?: string;
+  html?: string;
+  adapter_key?: string;
+  rules?: unknown;
+  site_name?: string;
+  timezone?: string;
+  user_agent?: string;
+};
+
+export async function POST(req: NextRequest) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as PreviewBody;
+  const url = body.url?.trim();
+  if (!url && !body.html) {
+    return NextResponse.json({ error: 'Provide "url" or "html"' }, { status: 400 });
+  }
+
+  let html = body.html;
+  if (!html) {
+    const userAgent = body.user_agent?.trim() || DEFAULT_USER_AGENT;
+    const verdict = await createCrawlPolicy().check(url!, userAgent);
+    if (!verdict.allowed) {
+      return NextResponse.json({ error: `Blocked by robots.txt for ${userAgent}` }, { status: 403 });
+    }
+    try {
+      html = await fetchHtml(url!, { userAgent });
+    } catch (e: unknown) {
+      const status = e instanceof HttpError ? e.status : null;
+      const message = e instanceof Error ? e.message : String(e);
+      return NextResponse.json({ error: message, upstream_status: status }, { status: 502 });
+    }
+  }
+
+  const adapter = getAdapter(body.adapter_key ?? 'generic');
+  const { rules, issues } = validateRules(body.rules);
+  const pageUrl = url ?? 'about:blank';
+  let siteName = body.site_name ?? '';
+  if (!siteName) {
+    try { siteName = new URL(pageUrl).hostname; } catch { /* fall through */ }
+  }
+  siteName ||= 'preview';
+  const ctx = { timezone: body.timezone?.trim() || DEFAULT_TIMEZONE, now: new Date() };
+
+  try {
+    const row = adapter.parseDetail(html, pageUrl, siteName, rules, ctx);
+    const $ = load(html);
+
+    return NextResponse.json({
+      adapter_key: adapter.key,
+      rules_issues: issues,
+      row,
+      price: {
+        anchor: extractPriceViaAnchor($, rules),
+        json_ld: readJsonLdProduct($).price ?? null,
+        meta: readMetaPrice($),
+        candidates: collectPriceCandidates($, rules),
+        chosen: adapter.extractPrice($, rules),
+      },
+      totals: {
+        result: adapter.extractTotals($, rules),
+        matched_patterns: explainTotalsPatterns($, rules),
+      },
+      ends_at: adapter.extractEndsAt($, rules, ctx),
+    });
+  } catch (err: unknown) {
+    console.error('[preview] parse error:', err);
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,7 +1,20 @@
 // app/api/scrape/route.ts
-import { NextRequest, NextResponse } from 'next/server';
-import { load, type CheerioAPI } from 'cheerio';
+// Body { query?, tier?, force? } crawls every site inline and returns the rows.
+// Any of { sites, urls, max_items, dry_run } makes it a targeted scrape instead:
+// queued as crawl jobs (lib/scrape/requests.ts), answered 202 with a run id to
+// poll at /api/scrape/runs/<id>.
+import { after, NextRequest, NextResponse } from 'next/server';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { ApiRow, SiteCfg } from '@/lib/scrape/types';
+import { createCrawlPolicy, type CrawlPolicy } from '@/lib/scrape/robots';
+import { validateDiscovery, type RulesValidation } from '@/lib/scrape/rules';
+import { createHostLimiter, mapPool, SITE_CONCURRENCY, type HostLimiter } from '@/lib/scrape/crawl';
+import { createSiteCrawl, finishRun, loadRules, loadSites, startRun, type SiteCrawl } from '@/lib/scrape/siteCrawl';
+import { isAuthorized, resolveRequester } from '@/lib/scrape/auth';
+import { runWorker } from '@/lib/scrape/jobs';
+import {
+  authorizeCrawlRequest, createCrawlRequest, CrawlRequestError, isTargeted, parseCrawlRequest,
+} from '@/lib/scrape/requests';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic'; // <-- ensure no prerender-time import/exec
@@ -20,667 +33,102 @@ function initSupabase(): SupabaseClient {
 }
 /* ------------------------------------------------------------------- */
 
-/* ---------- Cron guard ---------- */
-const CRON_SECRET = process.env.CRON_SECRET;
-const IS_DEV = process.env.NODE_ENV !== 'production';
-function isAuthorized(req: NextRequest): boolean {
-  if (IS_DEV) return true; // allow local/dev testing
-  const key = req.headers.get('x-cron-key');
-  return !!CRON_SECRET && key === CRON_SECRET;
-}
-/* -------------------------------- */
-
-// ---------- types ----------
-type ApiRow = {
-  prize: string;
-  site_name: string;
-  entry_fee: number | null;
-  total_tickets: number | null;
-  tickets_sold: number | null;
-  remaining_tickets?: number | null; // computed/returned
-  odds?: number | null;              // computed/returned only
-  url: string;
-  scraped_at?: string;
-  // NEW:
-  ends_at?: string | null;
-};
-
-type DbRow = {
-  prize: string;
-  site_name: string;
-  entry_fee: number | null;
-  total_tickets: number | null;
-  tickets_sold: number | null;
-  url: string;
-  scraped_at?: string;
-  is_closed?: boolean | null; // NEW
-  // NEW:
-  ends_at?: string | null;
-};
-
-type AdapterRules = { adapter_key: string; rules: any };
-
-type SiteCfg = {
-  id: string;
-  name: string;
-  list_url: string;
-  link_selector: string;
-  adapter_key: string; // 'revcomps' | 'dcg' | 'generic' | etc.
-  rate_limit_ms: number | null;
-  tier: 'free' | 'premium' | 'both';
-  enabled: boolean;
-};
-
-const UA =
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120 Safari/537.36';
-
-// ---------- fetch helper ----------
-const fetchHtml = async (url: string): Promise<string> => {
-  const res = await fetch(url, {
-    headers: { 'User-Agent': UA, 'Accept-Language': 'en-GB,en;q=0.9' },
-    cache: 'no-store',
-  });
-  if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
-  return res.text();
-};
-
-// ---------- utils ----------
-const sleep = (ms?: number | null) =>
-  ms && ms > 0 ? new Promise<void>((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
-
-const toFloat = (s?: string | null): number | null => {
-  if (s == null) return null;
-  const n = parseFloat(String(s).replace(/[^\d.]/g, ''));
-  return Number.isFinite(n) ? n : null;
-};
-
-// Pulls "sold / total" like: 82,588 / 629,999 (labels may be elsewhere)
-const readSoldTotalFraction = (text: string): { sold: number; total: number } | null => {
-  const cleaned = text.replace(/\u00A0|\u202F/g, ' ');
-  const m = cleaned.match(/(\d[\d,]*)\s*\/\s*(\d[\d,]*)/);
-  if (!m) return null;
-  const sold = toInt(m[1]);
-  const total = toInt(m[2]);
-  if (sold == null || total == null) return null;
-  if (sold > total) return null;
-  return { sold, total };
-};
-
-const toInt = (s?: string | null): number | null => {
-  if (s == null) return null;
-  const n = parseInt(String(s).replace(/[^\d]/g, ''), 10);
-  return Number.isFinite(n) ? n : null;
+// ---------- per-site crawl ----------
+type CrawlCtx = {
+  supabase: SupabaseClient;
+  rulesMap: Map<string, RulesValidation>;
+  query: string;
+  seen: Set<string>; // detail URLs claimed by any site in this run
+  limiter: HostLimiter;
+  policy: CrawlPolicy; // robots.txt, shared across sites on one host
+  force: boolean;     // ignore page_cache: refetch and re-parse everything
 };
 
-const computeRemaining = (total?: number | null, sold?: number | null) => {
-  if (total == null || sold == null) return null;
-  const r = total - sold;
-  return r >= 0 ? r : null;
-};
-
-/* ------------------ NEW: ends_at helpers (tiny, self-contained) ------------------ */
-const toUtcIso = (d: Date | string) => (d instanceof Date ? d : new Date(d)).toISOString();
-
-function tryParseDateUKLike(raw?: string | null): Date | null {
-  if (!raw) return null;
-  const s = raw.trim();
-
-  // If JS can parse it, use that
-  const direct = new Date(s);
-  if (!isNaN(direct.getTime())) return direct;
-
-  // dd/mm/yyyy hh:mm[:ss]
-  const m1 = s.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
-  if (m1) {
-    const [_, dd, mm, yyyy, hh = '0', mi = '0', ss = '0'] = m1;
-    const y = Number(yyyy.length === 2 ? '20' + yyyy : yyyy);
-    const d = new Date(Date.UTC(y, Number(mm) - 1, Number(dd), Number(hh), Number(mi), Number(ss)));
-    return isNaN(d.getTime()) ? null : d;
-  }
-
-  // "11 Oct 2025 10pm" / "11 October 2025 22:00"
-  const m2 = s.match(/(\d{1,2})\s+([A-Za-z]{3,})\s+(\d{2,4})(?:\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?)?/i);
-  if (m2) {
-    const [, dd, monStr, yyyy, hhRaw, minRaw, ampm] = m2;
-    const y = Number(yyyy.length === 2 ? '20' + yyyy : yyyy);
-    const months = ['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'];
-    const mIdx = months.findIndex(m => monStr.toLowerCase().startsWith(m));
-    const hh0 = hhRaw ? Number(hhRaw) : 0; const min0 = minRaw ? Number(minRaw) : 0;
-    let hour = hh0;
-    if (ampm) {
-      const ap = ampm.toLowerCase();
-      if (ap === 'pm' && hour < 12) hour += 12;
-      if (ap === 'am' && hour === 12) hour = 0;
-    }
-    const d = new Date(Date.UTC(y, mIdx, Number(dd), hour, min0, 0));
-    return isNaN(d.getTime()) ? null : d;
-  }
-
-  return null;
-}
-
-function extractEndsAt($: CheerioAPI, rules?: any): string | null {
-  // (1) JSON-LD: availabilityEnds / priceValidUntil / validThrough / expires
-  const jsonLd = $('script[type="application/ld+json"]')
-    .map((_, el) => $(el).contents().text())
-    .get();
-  for (const raw of jsonLd) {
-    try {
-      const data = JSON.parse(raw);
-      const nodes = Array.isArray(data) ? data : [data];
-      for (const node of nodes) {
-        const graph = Array.isArray(node?.['@graph']) ? node['@graph'] : [node];
-        for (const g of graph) {
-          const offers = Array.isArray(g.offers) ? g.offers[0] : g.offers;
-          const cand = offers?.availabilityEnds || offers?.priceValidUntil || g.validThrough || g.expires;
-          if (cand) {
-            const d = tryParseDateUKLike(String(cand)) ?? new Date(String(cand));
-            if (!isNaN(d.getTime())) return toUtcIso(d);
-          }
-        }
-      }
-    } catch { /* ignore bad JSON-LD */ }
-  }
-
-  // (2) common meta tags
-  const metaKeys = [
-    'product:availability:ends','availabilityEnds','validThrough','priceValidUntil','og:availability:ends','twitter:availability:ends'
-  ];
-  for (const k of metaKeys) {
-    const v = $(`meta[property="${k}"], meta[name="${k}"]`).attr('content');
-    if (v) { const d = tryParseDateUKLike(v) ?? new Date(v); if (!isNaN(d.getTime())) return toUtcIso(d); }
-  }
-
-  // (3) common countdown data-attrs
-  const attrKeys = ['data-countdown','data-countdown-date','data-end-date','data-endtime','data-end','data-expiry','data-expire-date'];
-  for (const key of attrKeys) {
-    const v = $(`[${key}]`).first().attr(key);
-    if (v) { const d = tryParseDateUKLike(v) ?? new Date(v); if (!isNaN(d.getTime())) return toUtcIso(d); }
-  }
-
-  // (4) text fallback
-  const body = $('body').text().replace(/\s+/g,' ');
-  const reList = [
-    /(Ends(?:\s*On)?|Closes|Closing|Draw\s*Date)\s*[:\-]?\s*([A-Za-z0-9,\s:\/\-]+?\d{2,4}(?:\s*\d{1,2}:\d{2}\s*(?:am|pm)?)?)/i,
-    /(End\s*Date|Closing\s*Date)\s*[:\-]?\s*([A-Za-z0-9,\s:\/\-]+?\d{2,4}(?:\s*\d{1,2}:\d{2}\s*(?:am|pm)?)?)/i,
-  ];
-  for (const re of reList) {
-    const m = body.match(re);
-    if (m?.[2]) { const d = tryParseDateUKLike(m[2]) ?? new Date(m[2]); if (!isNaN(d.getTime())) return toUtcIso(d); }
-  }
+async function crawlSite(ctx: CrawlCtx, site: SiteCfg): Promise<ApiRow[]> {
+  const { supabase, rulesMap, query, seen, limiter, policy, force } = ctx;
 
-  // (4b) NEW: DCG-style "Drawn on the 25th of September [YYYY?]"
-  // If year is omitted, assume the next occurrence of that date in the future (default time 22:00).
-  {
-    const m = body.match(/Drawn\s+on\s+the\s+(\d{1,2})(?:st|nd|rd|th)?\s+of\s+([A-Za-z]{3,})(?:\s+(\d{4}))?/i);
-    if (m) {
-      const day = Number(m[1]);
-      const monStr = m[2].toLowerCase();
-      const months = ['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'];
-      const month = months.findIndex(x => monStr.startsWith(x));
-      if (month >= 0) {
-        const now = new Date();
-        let year = m[3] ? Number(m[3]) : now.getUTCFullYear();
-        let d = new Date(Date.UTC(year, month, day, 22, 0, 0));
-        if (d.getTime() < Date.now()) d = new Date(Date.UTC(year + 1, month, day, 22, 0, 0));
-        return toUtcIso(d);
-      }
-    }
+  // rule problems are reported on every run of every site using those rules
+  const { rules, issues: ruleIssues } = rulesMap.get(site.adapter_key) ?? { rules: undefined, issues: [] };
+  if (ruleIssues.length) {
+    console.warn(`[scrape] ${site.name}: ${ruleIssues.length} adapter_rules issue(s) for "${site.adapter_key}"`);
   }
 
-  // (5) rules-based selectors (optional)
-  const sel = rules?.ends_at_selectors as string[] | undefined;
-  if (sel?.length) {
-    for (const s of sel) {
-      const t = $(s).first().text().trim();
-      if (t) { const d = tryParseDateUKLike(t) ?? new Date(t); if (!isNaN(d.getTime())) return toUtcIso(d); }
-    }
-  }
+  const runId = await startRun(supabase, site.id, [...ruleIssues, ...validateDiscovery(site.discovery).issues]);
+  let crawl: SiteCrawl | null = null;
 
-  return null;
+  try {
+    crawl = createSiteCrawl({ supabase, rules, limiter, policy, force, query }, site, runId);
+    const discovered = await crawl.discover();
+
+    // claim URLs synchronously so parallel sites never fetch the same page twice
+    const mine = discovered.links.filter((url) => {
+      if (seen.has(url)) return false;
+      seen.add(url);
+      return true;
+    });
+    const feedMine = discovered.feedRows.filter((row) => {
+      if (seen.has(row.url)) return false;
+      seen.add(row.url);
+      return true;
+    });
+    feedMine.forEach(crawl.ingest);
+    await crawl.crawlDetails(mine);
+    const { error } = await crawl.commit();
+
+    await finishRun(supabase, runId, site.id, error ? 'error' : 'ok', {
+      links_found: discovered.linksFound,
+      links_processed: mine.length + feedMine.length,
+      pages_crawled: discovered.pages,
+      ...crawl.metrics(),
+      ...(error ? { error } : {}),
+    });
+  } catch (siteErr: unknown) {
+    const msg = siteErr instanceof Error ? siteErr.message : String(siteErr);
+    await finishRun(supabase, runId, site.id, 'error', { error: msg, ...crawl?.metrics() });
+    console.error(`[scrape] site-level error for ${site.name}:`, msg);
+  }
+
+  return crawl?.rows() ?? [];
 }
-/* ---------------- end new helpers ---------------- */
-
-// ---------- PRICE helpers ----------
-const readJsonLdProduct = ($: CheerioAPI): { name?: string; price?: number | null } => {
-  const blocks = $('script[type="application/ld+json"]')
-    .map((_, el) => $(el).contents().text())
-    .get();
-
-  for (const raw of blocks) {
-    try {
-      const data = JSON.parse(raw);
-      const nodes = Array.isArray(data) ? data : [data];
-      for (const node of nodes) {
-        const graph = Array.isArray(node?.['@graph']) ? node['@graph'] : [node];
-        for (const g of graph) {
-          const typeArr = g?.['@type'] ? (Array.isArray(g['@type']) ? g['@type'] : [g['@type']]) : [];
-          if (typeArr.includes('Product')) {
-            const offers = Array.isArray(g.offers) ? g.offers[0] : g.offers;
-            const price = offers?.price ? Number(String(offers.price).replace(/[^\d.]/g, '')) : null;
-            const name = typeof g.name === 'string' ? g.name.trim() : undefined;
-            if (name || price != null) return { name, price: price ?? null };
-          }
-        }
-      }
-    } catch { /* ignore */ }
-  }
-  return {};
-};
 
-const readMetaPrice = ($: CheerioAPI): number | null => {
-  const props = ['product:price:amount', 'og:price:amount', 'twitter:data1'];
-  for (const p of props) {
-    const v = $(`meta[property="${p}"], meta[name="${p}"]`).attr('content');
-    const n = toFloat(v);
-    if (n != null) return n;
-  }
-  return null;
-};
-
-// Gather candidate prices from DOM/text
-const collectPriceCandidates = ($: CheerioAPI, rules?: any): number[] => {
-  const cands: number[] = [];
-  const pushN = (n: number | null) => {
-    if (n != null && Number.isFinite(n)) cands.push(Number(n.toFixed(2)));
-  };
-
-  (rules?.price_selectors ?? []).forEach((sel: string) => pushN(toFloat($(sel).first().text())));
-
-  [
-    '.summary .price .amount',
-    '.woocommerce-Price-amount',
-    '.price .amount',
-    '[class*="price"] .amount',
-    '[class*="price"]'
-  ].forEach((sel) => pushN(toFloat($(sel).first().text())));
-
-  $('[data-price], [data-entry-price], [data-price-per-entry], [data-ticket-price]').each((_, el) => {
-    pushN(toFloat($(el).attr('data-price')));
-    pushN(toFloat($(el).attr('data-entry-price')));
-    pushN(toFloat($(el).attr('data-price-per-entry')));
-    pushN(toFloat($(el).attr('data-ticket-price')));
-  });
-
-  const body = $('body').text();
-  const strictMatches = body.match(/£\s?(\d+(?:\.\d{1,2})?)/g) || [];
-  strictMatches.forEach((m) => pushN(toFloat(m)));
-
-  if (!strictMatches.length) {
-    const relaxed = body.match(/\b(\d+(?:\.\d{1,2})?)\b/g) || [];
-    relaxed.forEach((m) => pushN(toFloat(m)));
-  }
-
-  const min: number | null = rules?.price_min ?? 0.01;
-  const max: number | null = rules?.price_max ?? 100;
-  return cands.filter((n) => (min == null || n >= min) && (max == null || n <= max));
-};
-
-const chooseBestPrice = (cands: number[], trusted?: number | null, rules?: any): number | null => {
-  if (trusted != null) return trusted;
-  if (!cands.length) return null;
-
-  const preferMin = rules?.price_prefer_min ?? 0.15;
-  const preferMax = rules?.price_prefer_max ?? 5.0;
-  const preferUnder = rules?.price_prefer_under ?? 1.0;
-
-  const inWin = (n: number) => n >= preferMin && n <= preferMax;
-  const hasDecimals = (n: number) => Math.abs(n - Math.round(n)) > 1e-9;
-
-  const decUnder = cands.filter((n) => hasDecimals(n) && n < preferUnder);
-  if (decUnder.length) return Math.min(...decUnder);
-
-  const decIn = cands.filter((n) => inWin(n) && hasDecimals(n));
-  if (decIn.length) return Math.min(...decIn);
-
-  const decAll = cands.filter(hasDecimals);
-  if (decAll.length) return Math.min(...decAll);
-
-  const intIn = cands.filter((n) => inWin(n) && !hasDecimals(n));
-  if (intIn.length) return Math.min(...intIn);
-
-  return Math.min(...cands);
-};
-
-const extractPriceViaAnchor = ($: CheerioAPI, rules?: any): number | null => {
-  const anchor: string | undefined = rules?.price_anchor_text;
-  if (!anchor) return null;
-
-  const html = $.root().html() ?? '';
-  const re = new RegExp(`${anchor}[\\s\\S]{0,200}?£\\s?(\\d+(?:\\.\\d{1,2})?)`, 'i');
-  const m = html.match(re);
-  if (m?.[1]) return toFloat(m[1]);
+// ---------- targeted scrape ----------
+// work on the queue straight away rather than at the next cron tick; the cron
+// picks up whatever doesn't fit
+const AFTER_BUDGET_MS = 25_000;
 
-  const text = $('body').text();
-  const m2 = text.match(new RegExp(`${anchor}[\\s\\S]{0,200}?£\\s?(\\d+(?:\\.\\d{1,2})?)`, 'i'));
-  if (m2?.[1]) return toFloat(m2[1]);
-
-  return null;
-};
-
-// ---------- totals extractors ----------
-type Totals = { total: number | null; sold: number | null; remaining?: number | null };
-
-const extractTotalsFromSelectors = ($: CheerioAPI, rules?: any): Totals | null => {
-  if (!rules) return null;
-
-  const read = (sel?: string): number | null => {
-    if (!sel) return null;
-    const node = $(sel).first();
-    if (!node.length) return null;
-    return toInt(node.text());
-  };
-
-  const total = read(rules.total_selector);
-  const sold = read(rules.sold_selector);
-  const remaining = read(rules.remaining_selector);
-
-  if (total != null || sold != null || remaining != null) {
-    let t = total, s = sold, r = remaining;
-    if (t == null && s != null && r != null) t = s + r;
-    if (s == null && t != null && r != null) s = t - r;
-    if (r == null && t != null && s != null) r = t - s;
-    if (t != null && s != null && s > t) s = null;
-    return { total: t ?? null, sold: s ?? null, remaining: r ?? undefined };
-  }
-
-  return null;
-};
-
-const extractTotalsGeneric = ($: CheerioAPI, rules?: any): Totals => {
-  const selRes = extractTotalsFromSelectors($, rules);
-  if (selRes) return selRes;
-
-  const rawBody = $('body').text();
-  const bodyText = rawBody.replace(/\u00A0|\u202F/g, ' ');
-
-  const frac = readSoldTotalFraction(bodyText);
-  let total: number | null = frac?.total ?? null;
-  let sold: number | null = frac?.sold ?? null;
-  let remaining: number | null = null;
-
-  const totalPats: string[] = rules?.total_patterns ?? [
-    'Number of Tickets\\s*([\\d,]+)',
-    'Max Tickets\\s*([\\d,]+)',
-    'Maximum Tickets\\s*([\\d,]+)',
-    'Tickets Available\\s*([\\d,]+)\\s*/\\s*([\\d,]+)',
-    '\\b([\\d,]+)\\s*entries\\b',
-    '\\btotal\\s*(?:entries|tickets)\\s*:?\\s*([\\d,]+)',
-  ];
-
-  const soldPats: string[] = rules?.sold_patterns ?? [
-    '\\bSold\\s*:\\s*([\\d,]+)\\b',
-    '\\b([\\d,]+)\\s*sold\\b',
-    'Tickets\\s*sold\\s*:?\\s*([\\d,]+)',
-  ];
-
-  const remPats: string[] = rules?.remaining_patterns ?? [
-    '\\b([\\d,]+)\\s*(?:tickets?|entries?)\\s*remaining\\b',
-    '\\bremaining\\s*(?:tickets?|entries?)?:?\\s*([\\d,]+)\\b',
-    'Tickets\\s*remaining\\s*:?\\s*([\\d,]+)',
-  ];
-
-  if (remaining == null) {
-    for (const p of remPats) {
-      const re = new RegExp(p, 'i');
-      const m = bodyText.match(re);
-      if (m?.[1]) { remaining = toInt(m[1]); break; }
-    }
-  }
-
-  if (total == null) {
-    for (const p of totalPats) {
-      const re = new RegExp(p, 'i');
-      const m = bodyText.match(re);
-      if (m) { total = toInt(m[2] ?? m[1]); break; }
-    }
-  }
-
-  if (sold == null) {
-    for (const p of soldPats) {
-      const re = new RegExp(p, 'i');
-      const m = bodyText.match(re);
-      if (m) { sold = toInt(m[1]); break; }
-    }
-  }
-
-  if (total == null || remaining == null || sold == null) {
-    const scr = scanScriptsAndAttrsForTotals($, rules);
-    if (remaining == null && scr.remaining != null) remaining = scr.remaining;
-    if (total == null && scr.total != null) total = scr.total;
-    if (sold == null && scr.sold != null) sold = scr.sold;
-  }
-
-  if (total == null && sold != null && remaining != null) total = sold + remaining;
-  if (sold == null && total != null && remaining != null) sold = total - remaining;
-  if (remaining == null && total != null && sold != null) remaining = total - sold;
-
-  if (total != null && sold != null && sold > total) sold = null;
-
-  return { total, sold, remaining: remaining ?? undefined };
-};
-
-const scanScriptsAndAttrsForTotals = ($: CheerioAPI, rules?: any): Totals => {
-  const scripts = $('script').map((_, el) => $(el).contents().text()).get().join('\n');
-  const html = $.root().html() ?? '';
-
-  const remPats: string[] = rules?.remaining_patterns_script ?? [
-    '"remaining"\\s*:\\s*"*([\\d,]+)"*',
-    '"tickets_remaining"\\s*:\\s*"*([\\d,]+)"*',
-    'data-remaining\\s*=\\s*"([\\d,]+)"',
-    'data-entries-remaining\\s*=\\s*"([\\d,]+)"',
-  ];
-  const soldPats: string[] = rules?.sold_patterns_script ?? [
-    '"sold"\\s*:\\s*"*([\\d,]+)"*',
-    'data-sold\\s*=\\s*"([\\d,]+)"',
-  ];
-  const maxPats: string[] = rules?.max_patterns_script ?? [
-    '"max(?:imum)?_?(?:tickets|entries)"\\s*:\\s*"*([\\d,]+)"*',
-    'data-max(?:-)?(?:tickets|entries)\\s*=\\s*"([\\d,]+)"',
-  ];
-
-  const firstMatch = (src: string, pats: string[]) => {
-    for (const p of pats) {
-      const re = new RegExp(p, 'i');
-      const m = src.match(re);
-      if (m?.[1]) return toInt(m[1]);
-    }
-    return null;
-  };
-
-  const remaining = firstMatch(scripts, remPats) ?? firstMatch(html, remPats);
-  const sold = firstMatch(scripts, soldPats) ?? firstMatch(html, soldPats);
-  const max = firstMatch(scripts, maxPats) ?? firstMatch(html, maxPats);
-
-  let total = max;
-  if (total == null && sold != null && remaining != null) total = sold + remaining;
-
-  return { total, sold, remaining: remaining ?? undefined };
-};
-
-const extractTotalsRevComps = ($: CheerioAPI, rules?: any): Totals => {
-  const selRes = extractTotalsFromSelectors($, rules);
-  if (selRes) return selRes;
-
-  const scr = scanScriptsAndAttrsForTotals($, rules);
-  if (scr.total != null || scr.sold != null || scr.remaining != null) return scr;
-
-  const text = $('body').text();
-  const maxPhrase = toInt(text.match(/\bPRIZE HAS A MAX OF\s*([\d,]+)\s*TICKETS\b/i)?.[1]);
-  let sold = toInt(text.match(/\bSOLD:\s*([\d,]+)/i)?.[1]) ?? null;
-  const remaining = toInt(text.match(/\bREMAINING:\s*([\d,]+)/i)?.[1]) ?? null;
-
-  let total = maxPhrase ?? null;
-  if (total == null && sold != null && remaining != null) total = sold + remaining;
-  if (total != null && sold != null && sold > total) sold = null;
-
-  if (total == null) {
-    const g = extractTotalsGeneric($, rules?.fallback);
-    total = g.total;
-    if (sold == null) sold = g.sold;
-  }
-  return { total, sold, remaining };
-};
-
-const extractTotalsDCG = ($: CheerioAPI, rules?: any): Totals => {
-  const selRes = extractTotalsFromSelectors($, rules);
-  if (selRes) return selRes;
-
-  const html = $.root().html() ?? '';
-  const text = $('body').text().replace(/\u00A0|\u202F/g, ' ');
-
-  const findFracNearSold = (src: string): { sold: number; total: number } | null => {
-    let m = src.match(/(\d[\d,]*)\s*\/\s*(\d[\d,]*)[^<]{0,80}Tickets\s*sold/i);
-    if (m) {
-      const sold = toInt(m[1]); const total = toInt(m[2]);
-      if (sold != null && total != null && sold <= total) return { sold, total };
-    }
-    m = src.match(/Tickets\s*sold[^<]{0,80}(\d[\d,]*)\s*\/\s*(\d[\d,]*)/i);
-    if (m) {
-      const sold = toInt(m[1]); const total = toInt(m[2]);
-      if (sold != null && total != null && sold <= total) return { sold, total };
-    }
-    return null;
-  };
-
-  const findRemaining = (src: string): number | null => {
-    const pats = [
-      /Tickets\s*remaining[^<]{0,40}(\d[\d,]*)/i,
-      /(\d[\d,]*)[^<]{0,40}Tickets\s*remaining/i,
-    ];
-    for (const re of pats) {
-      const m = src.match(re);
-      if (m?.[1]) return toInt(m[1]);
-    }
-    return null;
-  };
-
-  let sold: number | null = null;
-  let total: number | null = null;
-  let remaining: number | null = null;
-
-  const frac = findFracNearSold(html) ?? findFracNearSold(text);
-  if (frac) { sold = frac.sold; total = frac.total; }
-
-  const rem = findRemaining(html) ?? findRemaining(text);
-  if (rem != null) remaining = rem;
-
-  if (total == null || sold == null || remaining == null) {
-    const scr = scanScriptsAndAttrsForTotals($, rules);
-    if (total == null && scr.total != null) total = scr.total;
-    if (sold == null && scr.sold != null) sold = scr.sold;
-    if (remaining == null && scr.remaining != null) remaining = scr.remaining;
-  }
-
-  if (total == null || sold == null || remaining == null) {
-    const gen = extractTotalsGeneric($, rules);
-    if (total == null) total = gen.total;
-    if (sold == null) sold = gen.sold;
-    if (remaining == null) remaining = gen.remaining ?? null;
-  }
-
-  if (total == null && sold != null && remaining != null) total = sold + remaining;
-  if (sold == null && total != null && remaining != null) sold = total - remaining;
-  if (remaining == null && total != null && sold != null) remaining = total - sold;
-  if (total != null && sold != null && sold > total) sold = null;
-
-  return { total, sold, remaining: remaining ?? undefined };
-};
-
-// ---------- parser factory ----------
-const buildParser = (adapter_key: string, rules?: any) => {
-  return (html: string, url: string, siteName: string): ApiRow | null => {
-    const $ = load(html);
-
-    const ld = readJsonLdProduct($);
-
-    const prize =
-      ld.name ||
-      (rules?.prize_selectors ? $(rules.prize_selectors.join(',')).first().text().trim() : '') ||
-      $('h1, h2.product_title, .woocommerce-loop-product__title').first().text().trim() ||
-      $('[class*="prize"]').first().text().trim() ||
-      $('meta[property="og:title"]').attr('content')?.trim() ||
-      $('title').text().trim();
-
-    if (!prize) return null;
-
-    let entry_fee: number | null = null;
-    entry_fee = extractPriceViaAnchor($, rules);
-    if (entry_fee == null) {
-      const metaPrice = readMetaPrice($);
-      const candPrices = collectPriceCandidates($, rules);
-      entry_fee = chooseBestPrice(candPrices, ld.price ?? metaPrice ?? null, rules);
-      if (entry_fee == null) {
-        console.warn('[scrape] price not found; url=', url, 'site=', siteName);
-      }
-    }
-
-    let totals: Totals;
-    switch (adapter_key) {
-      case 'revcomps':
-        totals = extractTotalsRevComps($, rules);
-        break;
-      case 'dcg':
-        totals = extractTotalsDCG($, rules);
-        break;
-      case 'generic':
-      default:
-        totals = extractTotalsGeneric($, rules);
-        break;
-    }
-
-    const remaining_final = totals.remaining ?? computeRemaining(totals.total, totals.sold);
-
-    // NEW: try to extract a close/end datetime
-    const endsAt = extractEndsAt($, rules);
-
-    return {
-      prize,
-      site_name: siteName,
-      entry_fee,
-      total_tickets: totals.total,
-      tickets_sold: totals.sold,
-      remaining_tickets: remaining_final ?? undefined,
-      url,
-      // NEW:
-      ends_at: endsAt ?? null,
-    };
-  };
-};
-
-// ---------- site loader with fallback + logging ----------
-async function loadSites(supabase: SupabaseClient, userTier: 'free' | 'premium' | 'both') {
-  const baseSel = 'id,name,list_url,link_selector,adapter_key,rate_limit_ms,tier,enabled';
-
-  const { data, error } = await supabase
-    .from('sites')
-    .select(baseSel)
-    .eq('enabled', true);
-  if (error) throw error;
-
-  let rows = (data ?? []) as SiteCfg[];
-  if (!rows.length) {
-    const retry = await supabase.from('sites').select(baseSel);
-    if (retry.error) throw retry.error;
-    rows = (retry.data ?? []) as SiteCfg[];
-    console.warn('[scrape] No sites with enabled=true; falling back to all sites. Count:', rows.length);
+async function queueTargeted(req: NextRequest, body: Record<string, unknown>): Promise<NextResponse> {
+  const supabase = initSupabase();
+  try {
+    const requester = await resolveRequester(req, supabase);
+    if (!requester) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const params = parseCrawlRequest(body);
+    await authorizeCrawlRequest(supabase, requester, params);
+    const rulesMap = await loadRules(supabase);
+    const queued = await createCrawlRequest(supabase, rulesMap, params, requester);
+
+    after(() =>
+      runWorker(supabase, rulesMap, Date.now() + AFTER_BUDGET_MS).catch((e: unknown) =>
+        console.error('[scrape] worker after targeted scrape failed:', e instanceof Error ? e.message : e)));
+
+    return NextResponse.json(
+      { run_id: queued.id, jobs: queued.jobs, not_queued: queued.not_queued, poll: `/api/scrape/runs/${queued.id}` },
+      { status: 202 },
+    );
+  } catch (e: unknown) {
+    if (e instanceof CrawlRequestError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error('Targeted scrape error:', e);
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Unknown error' }, { status: 500 });
   }
-
-  const filtered = rows.filter((s) =>
-    userTier === 'both' ? true : (s.tier === 'both' || s.tier === userTier)
-  );
-
-  console.log('[scrape] sites loaded:', {
-    total: rows.length,
-    filtered: filtered.length,
-    names: filtered.map((s) => s.name),
-  });
-
-  return filtered;
 }
 
 // ---------- HTTP handler ----------
 export async function POST(req: NextRequest) {
+  const parsed: unknown = await req.json().catch(() => ({}));
+  const body: Record<string, unknown> =
+    parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  if (isTargeted(body)) return queueTargeted(req, body);
+
   if (!isAuthorized(req)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
@@ -689,9 +137,9 @@ export async function POST(req: NextRequest) {
   const supabase = initSupabase();
 
   try {
-    const body = await req.json().catch(() => ({} as any));
-    const query: string = String(body?.query ?? '');
-    const userTier: 'free' | 'premium' | 'both' = body?.tier ?? 'both';
+    const query = typeof body.query === 'string' ? body.query : '';
+    const userTier = body.tier === 'free' || body.tier === 'premium' ? body.tier : 'both';
+    const force = body.force === true;
 
     const siteRows = await loadSites(supabase, userTier);
     if (siteRows.length === 0) {
@@ -699,198 +147,19 @@ export async function POST(req: NextRequest) {
       return NextResponse.json([], { status: 200 });
     }
 
-    const { data: rulesData, error: rulesErr } = await supabase
-      .from('adapter_rules')
-      .select('adapter_key,rules');
-    if (rulesErr) throw rulesErr;
-
-    const rulesMap = new Map<string, any>();
-    (rulesData ?? []).forEach((r: AdapterRules) => rulesMap.set(r.adapter_key, r.rules));
-
-    const apiRows: ApiRow[] = [];
-    const dbRows: DbRow[] = [];
-    const seen = new Set<string>();
-
-    for (const site of siteRows) {
-      const { data: runStart } = await supabase
-        .from('scrape_runs')
-        .insert({ site_id: site.id, status: 'started' })
-        .select('id')
-        .single();
-      const runId = runStart?.id as number | undefined;
-      const before = dbRows.length;
+    const rulesMap = await loadRules(supabase);
 
-      try {
-        const listHtml = await fetchHtml(site.list_url);
-        const $ = load(listHtml);
-
-        const harvest = (selector: string): string[] => {
-          return Array.from(
-            new Set(
-              $(selector)
-                .map((_, a) => $(a).attr('href'))
-                .get()
-                .filter(Boolean)
-                .map((href) => {
-                  try { return new URL(href!, site.list_url).href; } catch { return null as any; }
-                })
-                .filter(Boolean) as string[]
-            )
-          );
-        };
-
-        let links = harvest(site.link_selector);
-
-        if (!links.length) {
-          let all = harvest('a[href]');
-          try {
-            const base = new URL(site.list_url);
-            all = all.filter((u) => {
-              try {
-                const url = new URL(u);
-                if (url.hostname !== base.hostname) return false;
-              } catch { return false; }
-
-              if (site.adapter_key === 'dcg') {
-                const m = u.match(/\/competitions\/([^\/?#]+)/i);
-                if (!m) return false;
-                const slug = m[1].toLowerCase();
-                const deny = new Set(['cash','cars','tech','instant','winners','draws','terms']);
-                if (deny.has(slug)) return false;
-                return /[-\d]/.test(slug);
-              }
-              if (site.adapter_key === 'revcomps') {
-                return /\/(product|competitions?)\//i.test(u);
-              }
-              return true;
-            });
-          } catch {
-            // ignore URL parsing issues
-          }
-          links = all;
-        }
-
-        links = links.slice(0, 60);
-        console.log(`[scrape] ${site.name}: link_selector="${site.link_selector}" → ${links.length} links`);
-
-        const parseDetail = buildParser(site.adapter_key, rulesMap.get(site.adapter_key));
-
-        for (const url of links) {
-          if (seen.has(url)) continue;
-          seen.add(url);
-
-          try {
-            const detailHtml = await fetchHtml(url);
-            const parsed = parseDetail(detailHtml, url, site.name);
-            if (!parsed) continue;
-
-            if (query && !parsed.prize.toLowerCase().includes(query.toLowerCase())) continue;
-
-            const scraped_at = new Date().toISOString();
-
-            const apiRow: ApiRow = {
-              ...parsed,
-              scraped_at,
-              odds: parsed.total_tickets ?? null,
-            };
-            if (apiRow.remaining_tickets == null) {
-              apiRow.remaining_tickets = computeRemaining(apiRow.total_tickets, apiRow.tickets_sold) ?? undefined;
-            }
-            apiRows.push(apiRow);
-
-            // ---- compute is_closed and include in DB row ----
-            const remaining_final =
-              apiRow.remaining_tickets ?? computeRemaining(apiRow.total_tickets, apiRow.tickets_sold);
-
-            // NEW: time-based close if ends_at has passed
-            const timeClosed = apiRow.ends_at ? new Date(apiRow.ends_at).getTime() < Date.now() : false;
-
-            const isClosed =
-              (remaining_final !== null && remaining_final !== undefined && remaining_final <= 0) ||
-              (apiRow.total_tickets != null &&
-               apiRow.tickets_sold != null &&
-               apiRow.tickets_sold >= apiRow.total_tickets) ||
-              timeClosed;
-
-            const dbRow: DbRow = {
-              prize: apiRow.prize,
-              site_name: apiRow.site_name,
-              entry_fee: apiRow.entry_fee,
-              total_tickets: apiRow.total_tickets,
-              tickets_sold: apiRow.tickets_sold,
-              url: apiRow.url,
-              scraped_at: apiRow.scraped_at,
-              is_closed: isClosed,
-              // NEW: persist ends_at
-              ends_at: apiRow.ends_at ?? null,
-            };
-
-            dbRows.push(dbRow);
-
-            await sleep(site.rate_limit_ms);
-          } catch (e: any) {
-            // If the product URL 404s, mark it closed so it stops showing up
-            const msg = String(e?.message ?? '');
-            if (/HTTP\s*404/i.test(msg)) {
-              try {
-                await supabase
-                  .from('competitions')
-                  .update({ is_closed: true })
-                  .eq('url', url);
-              } catch { /* best-effort */ }
-            }
-            console.warn(`[scrape] detail error for ${url}:`, e?.message ?? e);
-            continue;
-          }
-        }
-
-        const added = dbRows.length - before;
-        console.log(`[scrape] ${site.name}: rows parsed`, added);
-
-        if (added > 0) {
-          const payload = dbRows.slice(before);
-          const { error } = await supabase
-            .from('competitions')
-            .upsert(payload as any, { onConflict: 'url', ignoreDuplicates: false })
-            .select();
-          if (error) {
-            if (runId) {
-              await supabase
-                .from('scrape_runs')
-                .update({
-                  status: 'error',
-                  finished_at: new Date().toISOString(),
-                  error: error.message,
-                })
-                .eq('id', runId);
-            }
-            console.error(`[scrape] upsert error for ${site.name}:`, error.message);
-          } else if (runId) {
-            await supabase
-              .from('scrape_runs')
-              .update({
-                status: 'ok',
-                items_ingested: added,
-                finished_at: new Date().toISOString(),
-              })
-              .eq('id', runId);
-          }
-        }
-      } catch (siteErr: any) {
-        if (runId) {
-          await supabase
-            .from('scrape_runs')
-            .update({
-              status: 'error',
-              finished_at: new Date().toISOString(),
-              error: String(siteErr?.message ?? siteErr),
-            })
-            .eq('id', runId);
-        }
-        console.error(`[scrape] site-level error for ${site.name}:`, siteErr?.message ?? siteErr);
-        continue;
-      }
-    }
+    const ctx: CrawlCtx = {
+      supabase,
+      rulesMap,
+      query,
+      seen: new Set<string>(),
+      limiter: createHostLimiter(),
+      policy: createCrawlPolicy(),
+      force,
+    };
+    const perSite = await mapPool(siteRows, SITE_CONCURRENCY, (site) => crawlSite(ctx, site));
+    const apiRows = perSite.flat();
 
     console.log('[scrape] total apiRows returned:', apiRows.length);
     return NextResponse.json(apiRows, { status: 200 });
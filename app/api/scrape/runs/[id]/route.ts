@@ -0,0 +1,38 @@
+// app/api/scrape/runs/[id]/route.ts
+// Progress of a targeted scrape (POST /api/scrape with sites / urls): per-site
+// job status, task counts and, for dry runs, the rows it would have written.
+// Visible to the cron key, admins and the user who asked for it.
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { resolveRequester } from '@/lib/scrape/auth';
+import { getCrawlRequest } from '@/lib/scrape/requests';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_KEY;
+  if (!url || !key) {
+    return NextResponse.json({ error: 'Missing SUPABASE_URL or SUPABASE_SERVICE_KEY' }, { status: 500 });
+  }
+  const supabase = createClient(url, key);
+
+  const requester = await resolveRequester(req, supabase);
+  if (!requester) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { id } = await params;
+  if (!/^[0-9a-f-]{36}$/i.test(id)) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  try {
+    const run = await getCrawlRequest(supabase, id);
+    const visible = run && (
+      requester.kind === 'service' || requester.tier === 'admin' || run.requested_by === requester.id
+    );
+    if (!visible) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json(run, { status: 200 });
+  } catch (e: unknown) {
+    console.error('Scrape run status error:', e);
+    return NextResponse.json({ error: e instanceof Error ? e.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,338 @@
+'use client';
+export const dynamic = 'force-dynamic';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { createClient, type Session, type SupabaseClient } from '@supabase/supabase-js';
+import { chanceOfAnyWin, oneIn } from '@/lib/scrape/odds';
+import { formatMoney, oneUnitOf } from '@/lib/scrape/currency';
+import { formatAge } from '@/lib/scrape/schedule';
+import { STATUS_LABELS } from '@/lib/scrape/lifecycle';
+import type { CompetitionStatus, DrawResult, InstantWin } from '@/lib/scrape/types';
+import SalesChart, { type ChartPoint } from '@/app/_components/SalesChart';
+import { useScrapeRun } from '@/app/_components/useScrapeRun';
+
+// Safe Supabase init (don’t throw at build)
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+let supabase: SupabaseClient | null = null;
+if (typeof window !== 'undefined' && supabaseUrl && supabaseAnonKey) {
+  supabase = createClient(supabaseUrl, supabaseAnonKey);
+}
+
+interface Competition {
+  id: string;
+  prize: string;
+  site_name: string;
+  entry_fee: number | null;
+  currency: string | null;
+  total_tickets: number | null;
+  tickets_sold: number | null;
+  remaining_tickets: number | null;
+  odds: number | null;
+  url: string;
+  scraped_at: string | null;
+  checked_at: string | null; // last fetch, changed or not
+  ends_at: string | null;
+  is_closed: boolean | null;
+  status: CompetitionStatus | null;
+  status_reason: string | null;
+  status_changed_at: string | null;
+  instant_wins_total: number | null;
+  instant_wins_remaining: number | null;
+  prize_value: number | null;
+  cash_alternative: number | null;
+  ev_per_pound: number | null;
+  has_free_entry: boolean | null;
+  free_entry_address: string | null;
+  free_entry_url: string | null;
+  skill_question: string | null;
+  skill_answers: string[] | null;
+}
+
+type Draw = Pick<DrawResult, 'prize' | 'winning_ticket' | 'winner' | 'drawn_at' | 'live_draw_url'>;
+
+// the signed-in user's mark on this competition (RLS: only their own rows)
+interface Entry {
+  marked_at: string;
+  resolved_at: string | null;
+}
+
+interface Snapshot {
+  scraped_at: string;
+  entry_fee: number | null;
+  tickets_sold: number | null;
+}
+
+export default function CompetitionPage() {
+  const { id } = useParams<{ id: string }>();
+  const [comp, setComp] = useState<Competition | null>(null);
+  const [history, setHistory] = useState<Snapshot[]>([]);
+  const [instantWins, setInstantWins] = useState<InstantWin[]>([]);
+  const [draws, setDraws] = useState<Draw[]>([]);
+  const [entry, setEntry] = useState<Entry | null>(null);
+  const [canRefresh, setCanRefresh] = useState(false); // premium + admin users
+  const [reloadKey, setReloadKey] = useState(0);
+  const refresh = useScrapeRun(supabase);
+  const refreshFailure = refresh.run?.jobs.find(j => j.error)?.error ?? refresh.run?.not_queued[0]?.reason;
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  // formatters
+  const fmtInt = (n: number | null | undefined) =>
+    n == null ? 'N/A' : n.toLocaleString('en-GB');
+  const fmtMoney = (n: number | null | undefined) => formatMoney(n, comp?.currency);
+  const fmtOdds = (total: number | null | undefined) =>
+    total == null ? 'N/A' : `1 in ${total.toLocaleString('en-GB')}`;
+  const fmtDate = (iso: string | null | undefined) =>
+    iso ? new Date(iso).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' }) : 'N/A';
+
+  useEffect(() => {
+    if (!supabase) {
+      setErrorMsg('Supabase client not available. Check environment variables.');
+      setLoading(false);
+      return;
+    }
+
+    const fetchCompetition = async () => {
+      setLoading(true);
+      setErrorMsg(null);
+
+      const [compRes, histRes, winsRes, drawsRes, entryRes] = await Promise.all([
+        supabase.from('competitions').select('*').eq('id', id).maybeSingle(),
+        supabase
+          .from('competition_snapshots')
+          .select('scraped_at,entry_fee,tickets_sold')
+          .eq('competition_id', id)
+          .order('scraped_at', { ascending: true }),
+        supabase
+          .from('competition_instant_wins')
+          .select('prize,value,quantity,claimed')
+          .eq('competition_id', id)
+          .order('value', { ascending: false, nullsFirst: false }),
+        supabase
+          .from('draw_results')
+          .select('prize,winning_ticket,winner,drawn_at,live_draw_url')
+          .eq('competition_id', id)
+          .order('drawn_at', { ascending: false, nullsFirst: false }),
+        supabase
+          .from('user_entries')
+          .select('marked_at,resolved_at')
+          .eq('competition_id', id)
+          .maybeSingle(),
+      ]);
+
+      if (compRes.error) {
+        console.error('Supabase SELECT error:', compRes.error);
+        setErrorMsg('Could not load this competition.');
+      } else {
+        setComp(compRes.data as Competition | null);
+      }
+      if (histRes.error) {
+        console.error('Supabase SELECT error (snapshots):', histRes.error);
+      } else {
+        setHistory((histRes.data as Snapshot[]) || []);
+      }
+      if (winsRes.error) {
+        console.error('Supabase SELECT error (instant wins):', winsRes.error);
+      } else {
+        setInstantWins((winsRes.data as InstantWin[]) || []);
+      }
+      if (drawsRes.error) {
+        console.error('Supabase SELECT error (draw results):', drawsRes.error);
+      } else {
+        setDraws((drawsRes.data as Draw[]) || []);
+      }
+      // signed out → no row; not worth an error message either way
+      setEntry(entryRes.error ? null : (entryRes.data as Entry | null));
+      setLoading(false);
+    };
+
+    fetchCompetition();
+  }, [id, reloadKey]);
+
+  useEffect(() => {
+    if (!supabase) return;
+    const loadTier = async () => {
+      const { data: { session } } =
+        await supabase.auth.getSession() as { data: { session: Session | null } };
+      if (!session) return;
+      const { data: profile } = await supabase
+        .from('profiles').select('tier').eq('id', session.user.id).maybeSingle();
+      setCanRefresh(profile?.tier === 'premium' || profile?.tier === 'admin');
+    };
+    loadTier();
+  }, []);
+
+  // show the fresh numbers once the requested refresh has run
+  useEffect(() => {
+    if (refresh.run && refresh.run.status !== 'running') setReloadKey(k => k + 1);
+  }, [refresh.run]);
+
+  const soldPoints = useMemo<ChartPoint[]>(
+    () => history
+      .filter(s => s.tickets_sold != null)
+      .map(s => ({ t: new Date(s.scraped_at).getTime(), v: s.tickets_sold as number })),
+    [history]
+  );
+  const pricePoints = useMemo<ChartPoint[]>(
+    () => history
+      .filter(s => s.entry_fee != null)
+      .map(s => ({ t: new Date(s.scraped_at).getTime(), v: Number(s.entry_fee) })),
+    [history]
+  );
+
+  // unchanged pages aren't rewritten, so scraped_at can be older than the last look
+  const lastChecked = comp?.checked_at ?? comp?.scraped_at ?? null;
+  const facts = comp ? [
+    { label: 'Site',        value: comp.site_name },
+    { label: 'Odds',        value: fmtOdds(comp.total_tickets) },
+    { label: 'Win anything', value: fmtOdds(oneIn(chanceOfAnyWin(comp))) },
+    { label: 'Remaining',   value: fmtInt(comp.remaining_tickets) },
+    { label: 'Sold',        value: fmtInt(comp.tickets_sold) },
+    { label: 'Entry Fee',   value: fmtMoney(comp.entry_fee) },
+    { label: 'Prize value', value: fmtMoney(comp.prize_value) },
+    { label: 'Cash alternative', value: fmtMoney(comp.cash_alternative) },
+    { label: `EV per ${oneUnitOf(comp.currency)}`, value: fmtMoney(comp.ev_per_pound) },
+    { label: 'Free entry',  value: comp.has_free_entry == null ? 'N/A' : comp.has_free_entry ? 'Yes (postal)' : 'Not found' },
+    { label: 'Ends',        value: fmtDate(comp.ends_at) },
+    { label: 'Last refreshed', value: lastChecked ? `${formatAge(lastChecked)} (${fmtDate(lastChecked)})` : 'N/A' },
+    ...(comp.instant_wins_total != null ? [{
+      label: 'Instant wins left',
+      value: `${fmtInt(comp.instant_wins_remaining)} of ${fmtInt(comp.instant_wins_total)}`,
+    }] : []),
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-midnight-blue text-wolf-grey p-8">
+      <Link href="/results" className="text-sm underline">← Back to results</Link>
+
+      {errorMsg && <p className="my-4 text-neon-red">{errorMsg}</p>}
+
+      {loading ? (
+        <p className="mt-4">Loading...</p>
+      ) : !comp ? (
+        <p className="mt-4 text-neon-red">Competition not found.</p>
+      ) : (
+        <div className="mt-4 max-w-3xl">
+          <h1 className="text-3xl font-bold text-electric-gold mb-1">{comp.prize}</h1>
+          {comp.status && comp.status !== 'open' && (
+            <p className="mb-2 text-neon-red">
+              {STATUS_LABELS[comp.status]}
+              {comp.status_changed_at && <span className="opacity-70"> · since {fmtDate(comp.status_changed_at)}</span>}
+            </p>
+          )}
+
+          {draws.length > 0 && (
+            <section className="my-6 rounded-md border border-electric-gold p-4">
+              <h2 className="text-xl font-bold text-electric-gold mb-2">Draw result</h2>
+              <ul className="space-y-1">
+                {draws.map(d => (
+                  <li key={`${d.winning_ticket}|${d.winner}|${d.drawn_at}`}>
+                    {d.winning_ticket && <>Winning ticket <span className="font-bold">#{d.winning_ticket}</span></>}
+                    {d.winner && <>{d.winning_ticket ? ' — ' : 'Won by '}{d.winner}</>}
+                    {d.drawn_at && <span className="opacity-70"> · drawn {fmtDate(d.drawn_at)}</span>}
+                    {d.live_draw_url && <> · <a href={d.live_draw_url} target="_blank" className="underline">Watch the live draw</a></>}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {entry && (
+            <p className="mb-4 text-sm">
+              {entry.resolved_at
+                ? 'You marked this entry and it has now been drawn — check your ticket numbers against the result above.'
+                : `You marked this entry on ${fmtDate(entry.marked_at)}; it will be resolved here once the draw result is published.`}
+            </p>
+          )}
+
+          <dl className="my-6 grid grid-cols-2 gap-x-6 gap-y-2 sm:grid-cols-3">
+            {facts.map(f => (
+              <div key={f.label}>
+                <dt className="text-xs uppercase opacity-70">{f.label}</dt>
+                <dd className="text-lg">{f.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <a
+            href={comp.url}
+            target="_blank"
+            className="inline-block mb-8 bg-electric-gold text-midnight-blue font-bold py-2 px-6 rounded-md hover:bg-neon-red hover:text-white transition"
+          >
+            Enter on {comp.site_name}
+          </a>
+
+          {canRefresh && (
+            <div className="-mt-4 mb-8 flex items-center gap-2 text-sm">
+              <button
+                onClick={() => refresh.start({ urls: [comp.url] })}
+                disabled={refresh.starting || refresh.run?.status === 'running'}
+                className="border border-electric-gold py-1 px-3 rounded disabled:opacity-50"
+              >
+                {refresh.run?.status === 'running' ? 'Refreshing…' : 'Refresh now'}
+              </button>
+              {refresh.error && <span className="text-neon-red">{refresh.error}</span>}
+              {refresh.run?.status === 'done' && <span>Refreshed.</span>}
+              {(refresh.run?.status === 'error' || refresh.run?.status === 'partial') && (
+                <span className="text-neon-red">Refresh failed{refreshFailure ? `: ${refreshFailure}` : ''}.</span>
+              )}
+            </div>
+          )}
+
+          {(comp.skill_question || comp.has_free_entry) && (
+            <section className="mb-8">
+              <h2 className="text-xl font-bold text-electric-gold mb-2">How to enter</h2>
+              {comp.skill_question && (
+                <div className="mb-3">
+                  <p className="font-semibold">{comp.skill_question}</p>
+                  {!!comp.skill_answers?.length && (
+                    <ul className="list-disc pl-6 text-sm">
+                      {comp.skill_answers.map(a => <li key={a}>{a}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {comp.has_free_entry && (
+                <p className="text-sm">
+                  Free postal entry{comp.free_entry_address ? <> to <span className="italic">{comp.free_entry_address}</span></> : ''}.
+                  {comp.free_entry_url && <> <a href={comp.free_entry_url} target="_blank" className="underline">Instructions</a></>}
+                </p>
+              )}
+            </section>
+          )}
+
+          <SalesChart title="Tickets sold" points={soldPoints} format={v => fmtInt(Math.round(v))} />
+          <SalesChart title="Entry fee" points={pricePoints} format={v => fmtMoney(v)} />
+
+          {instantWins.length > 0 && (
+            <section className="mt-8">
+              <h2 className="text-xl font-bold text-electric-gold mb-2">Instant wins</h2>
+              <table className="w-full border-collapse border border-wolf-grey text-sm">
+                <thead>
+                  <tr className="bg-electric-gold text-midnight-blue">
+                    <th className="p-2 text-left">Prize</th>
+                    <th className="p-2 text-right">Value</th>
+                    <th className="p-2 text-right">Remaining</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {instantWins.map(w => (
+                    <tr key={`${w.prize}|${w.value}`} className="border-b border-wolf-grey">
+                      <td className="p-2">{w.prize}</td>
+                      <td className="p-2 text-right">{fmtMoney(w.value)}</td>
+                      <td className="p-2 text-right">{fmtInt(Math.max(0, w.quantity - w.claimed))} of {fmtInt(w.quantity)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,20 @@
 'use client';
 export const dynamic = 'force-dynamic';
 
-import { useEffect, useMemo, useState, Suspense } from 'react';
+import { Fragment, useEffect, useMemo, useState, Suspense } from 'react';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
 import type { Session } from '@supabase/supabase-js';
+import type { FieldProvenance, Provenance } from '@/lib/scrape/types';
+// Client component: the lib/scrape modules below (and the ones the other pages
+// import) are bundled for the browser, so they must not import server-only code.
+import { HIDE_CONFIDENCE, LOW_CONFIDENCE } from '@/lib/scrape/provenance';
+import { chanceOfAnyWin, oneIn } from '@/lib/scrape/odds';
+import { BASE_CURRENCY, formatMoney } from '@/lib/scrape/currency';
+import { groupByPrize } from '@/lib/scrape/grouping';
+import { CATEGORIES, isCategory } from '@/lib/scrape/categories';
+import { formatAge } from '@/lib/scrape/schedule';
 
 // Safe Supabase init (don’t throw at build)
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -22,15 +32,26 @@ interface Competition {
   prize: string;
   site_name: string;
   entry_fee: number | null;
+  currency: string | null;
+  entry_fee_gbp: number | null;
   total_tickets: number | null;
   tickets_sold: number | null;
   remaining_tickets: number | null;
   odds: number | null;
   url: string;
   scraped_at: string | null;
+  checked_at: string | null; // last fetch, changed or not
+  provenance: Provenance | null;
+  instant_wins_total: number | null;
+  instant_wins_remaining: number | null;
+  ev_per_ticket: number | null;
+  ev_per_pound: number | null;
+  prize_key: string | null;
+  categories: string[] | null;
+  has_free_entry: boolean | null;
 }
 
-type SortOption = 'odds_asc' | 'odds_desc' | 'entry_fee_asc' | 'entry_fee_desc';
+type SortOption = 'odds_asc' | 'odds_desc' | 'entry_fee_asc' | 'entry_fee_desc' | 'ev_desc';
 
 // -------------------- Inner component (real page logic) --------------------
 function ResultsPageInner() {
@@ -40,18 +61,33 @@ function ResultsPageInner() {
   const [markedIds, setMarkedIds] = useState<Set<UUID>>(new Set());
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [sort, setSort] = useState<SortOption>('odds_asc');
+  const [hideLowConfidence, setHideLowConfidence] = useState(false);
+  const [groupSamePrize, setGroupSamePrize] = useState(true);
+  const [freeEntryOnly, setFreeEntryOnly] = useState(false);
 
   const searchParams = useSearchParams();
   const query = searchParams.get('query') || '';
+  const categoryParam = searchParams.get('category');
+  const category = isCategory(categoryParam) ? categoryParam : '';
   const router = useRouter();
 
+  // category lives in the URL so search → results links (and reloads) keep it
+  const setCategory = (next: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (next) params.set('category', next);
+    else params.delete('category');
+    router.replace(`/results?${params.toString()}`);
+  };
+
   // formatters
   const fmtInt = (n: number | null | undefined) =>
     n == null ? 'N/A' : n.toLocaleString('en-GB');
-  const fmtMoney = (n: number | null | undefined) =>
-    n == null ? 'N/A' : `£${n.toFixed(2)}`;
+  // amounts are shown in the currency the site charges in
+  const fmtMoney = (n: number | null | undefined, currency?: string | null) => formatMoney(n, currency);
   const fmtOdds = (total: number | null | undefined) =>
     total == null ? 'N/A' : `1 in ${total.toLocaleString('en-GB')}`;
+  // per unit of the site's currency: £0.80 per £1, €0.80 per €1
+  const fmtEv = (perUnit: number | null | undefined, currency?: string | null) => formatMoney(perUnit, currency);
 
   useEffect(() => {
     if (!supabase) {
@@ -72,20 +108,27 @@ function ResultsPageInner() {
       const isPaid = rawTier === 'paid' || rawTier === 'premium';
       const pageLimit = isPaid ? 50 : 10;
 
-      // "odds" = lower total_tickets is better
+      // "odds" = lower total_tickets is better; EV = value back per £1, highest first.
+      // Fees sort on their GBP conversion so € and £ competitions interleave.
       const [col, dir] =
         sort === 'odds_asc' ? ['total_tickets', true] :
         sort === 'odds_desc' ? ['total_tickets', false] :
-        sort === 'entry_fee_asc' ? ['entry_fee', true] :
-        ['entry_fee', false] as const;
+        sort === 'entry_fee_asc' ? ['entry_fee_gbp', true] :
+        sort === 'ev_desc' ? ['ev_per_pound', false] :
+        ['entry_fee_gbp', false] as const;
 
       // DB-only: exclude closed competitions
-      const q = supabase
+      let q = supabase
         .from('competitions')
         .select('*')
         .eq('is_closed', false)
-        .ilike('prize', `%${query}%`)
-        .order(col, { ascending: dir, nullsFirst: true })
+        .ilike('prize', `%${query}%`);
+      if (category) q = q.contains('categories', [category]);
+      if (freeEntryOnly) q = q.eq('has_free_entry', true);
+      // before the limit, so a page isn't short of rows; null = no provenance (trusted)
+      if (hideLowConfidence) q = q.or(`min_confidence.is.null,min_confidence.gte.${LOW_CONFIDENCE}`);
+      q = q
+        .order(col, { ascending: dir, nullsFirst: col !== 'ev_per_pound' })
         .order('prize', { ascending: true })
         .limit(pageLimit);
 
@@ -102,7 +145,7 @@ function ResultsPageInner() {
     };
 
     fetchResults();
-  }, [query, sort]);
+  }, [query, category, freeEntryOnly, hideLowConfidence, sort]);
 
   useEffect(() => {
     if (!supabase) return;
@@ -165,14 +208,30 @@ function ResultsPageInner() {
     }
   };
 
-  const rows = useMemo(() => results, [results]);
+  // same prize on several sites → one entry, best listing (by the current sort) first
+  const groups = useMemo(
+    () => groupSamePrize ? groupByPrize(results) : results.map(r => ({ key: r.id, listings: [r] })),
+    [results, groupSamePrize]
+  );
+
+  // Low confidence: flag the value; very low: don't show a guess at all. Not
+  // found (no confidence) is left to the formatter, which shows N/A.
+  const withConfidence = (text: string, p?: FieldProvenance) => {
+    if (!p || p.confidence == null || p.confidence >= LOW_CONFIDENCE) return text;
+    const title = `Low confidence (${p.source.replace('_', ' ')}) — check on the site`;
+    return p.confidence < HIDE_CONFIDENCE
+      ? <span className="italic opacity-70" title={title}>Unverified</span>
+      : <span className="italic" title={title}>{text} ⚠</span>;
+  };
 
   const tableHeaders = [
     { key: 'prize',      label: 'Prize',       align: 'text-left'  },
     { key: 'site',       label: 'Site',        align: 'text-left'  },
     { key: 'odds',       label: 'Odds',        align: 'text-right' },
+    { key: 'any',        label: 'Win Anything', align: 'text-right' },
     { key: 'remaining',  label: 'Remaining',   align: 'text-right' },
     { key: 'fee',        label: 'Entry Fee',   align: 'text-right' },
+    { key: 'ev',         label: 'EV per 1 spent', align: 'text-right' },
     { key: 'link',       label: 'Link',        align: 'text-center'},
     { key: 'action',     label: 'Action',      align: 'text-center'},
   ] as const;
@@ -181,10 +240,45 @@ function ResultsPageInner() {
     <div className="min-h-screen bg-midnight-blue text-wolf-grey p-8">
       <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
         <h1 className="text-3xl font-bold text-electric-gold">
-          Results for &quot;{query}&quot;
+          {query ? <>Results for &quot;{query}&quot;</> : 'All competitions'}
+          {category && <> in {CATEGORIES.find(c => c.key === category)?.label}</>}
         </h1>
 
         <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-sm mr-2">
+            <input
+              type="checkbox"
+              checked={hideLowConfidence}
+              onChange={(e) => setHideLowConfidence(e.target.checked)}
+            />
+            Hide unverified odds/prices
+          </label>
+          <label className="flex items-center gap-1 text-sm mr-2">
+            <input
+              type="checkbox"
+              checked={groupSamePrize}
+              onChange={(e) => setGroupSamePrize(e.target.checked)}
+            />
+            Group same prize
+          </label>
+          <label className="flex items-center gap-1 text-sm mr-2">
+            <input
+              type="checkbox"
+              checked={freeEntryOnly}
+              onChange={(e) => setFreeEntryOnly(e.target.checked)}
+            />
+            Free entry route
+          </label>
+          <label htmlFor="category" className="text-sm">Category:</label>
+          <select
+            id="category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="rounded-md bg-wolf-grey text-midnight-blue px-3 py-2 border border-wolf-grey/60 mr-2"
+          >
+            <option value="">All</option>
+            {CATEGORIES.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+          </select>
           <label htmlFor="sort" className="text-sm">Sort by:</label>
           <select
             id="sort"
@@ -196,6 +290,7 @@ function ResultsPageInner() {
             <option value="odds_desc">Odds (worst first)</option>
             <option value="entry_fee_asc">Entry fee (low → high)</option>
             <option value="entry_fee_desc">Entry fee (high → low)</option>
+            <option value="ev_desc">Expected value (best first)</option>
           </select>
         </div>
       </div>
@@ -204,7 +299,7 @@ function ResultsPageInner() {
 
       {loading ? (
         <p>Loading...</p>
-      ) : rows.length === 0 ? (
+      ) : results.length === 0 ? (
         <p className="text-neon-red">No competitions found. Try another prize!</p>
       ) : (
         <table className="w-full border-collapse border border-wolf-grey">
@@ -216,37 +311,71 @@ function ResultsPageInner() {
             </tr>
           </thead>
           <tbody>
-            {rows.map((comp) => {
-              const isMarked = markedIds.has(comp.id);
-              const isBusy = !!marking[comp.id];
-
-              return (
-                <tr key={comp.id} className="border-b border-wolf-grey hover:bg-neon-red hover:text-white">
-                  <td className="p-2">{comp.prize}</td>
-                  <td className="p-2">{comp.site_name}</td>
-                  <td className="p-2 text-right">{fmtOdds(comp.total_tickets)}</td>
-                  <td className="p-2 text-right">{fmtInt(comp.remaining_tickets)}</td>
-                  <td className="p-2 text-right">{fmtMoney(comp.entry_fee ?? null)}</td>
-                  <td className="p-2 text-center">
-                    <a href={comp.url} target="_blank" className="underline">Enter</a>
-                  </td>
-                  <td className="p-2 text-center">
-                    <button
-                      onClick={() => handleMarkEntered(comp.id)}
-                      disabled={isMarked || isBusy}
-                      className={`px-3 py-1 rounded-md border transition ${
-                        isMarked
-                          ? 'bg-wolf-grey text-midnight-blue cursor-not-allowed'
-                          : 'bg-electric-gold text-midnight-blue hover:bg-white'
-                      }`}
-                      title={isMarked ? 'Already marked as entered' : 'Mark as entered'}
+            {groups.map(({ key, listings }) => (
+              <Fragment key={key}>
+                {listings.map((comp, i) => {
+                  const isMarked = markedIds.has(comp.id);
+                  const isBusy = !!marking[comp.id];
+                  const isAlternative = i > 0;
+
+                  return (
+                    <tr
+                      key={comp.id}
+                      className={`border-b border-wolf-grey hover:bg-neon-red hover:text-white ${isAlternative ? 'text-sm opacity-90' : ''}`}
                     >
-                      {isMarked ? 'Entered ✓' : isBusy ? 'Marking…' : 'Mark Entered'}
-                    </button>
-                  </td>
-                </tr>
-              );
-            })}
+                      <td className={`p-2 ${isAlternative ? 'pl-6' : ''}`}>
+                        <Link href={`/competitions/${comp.id}`} className="hover:underline" title={isAlternative ? comp.prize : undefined}>
+                          {isAlternative ? '↳ same prize' : comp.prize}
+                        </Link>
+                        {!isAlternative && listings.length > 1 && (
+                          <div className="text-xs opacity-80">Listed on {listings.length} sites</div>
+                        )}
+                        {comp.instant_wins_remaining != null && (
+                          <div className="text-xs opacity-80">
+                            {fmtInt(comp.instant_wins_remaining)} instant win{comp.instant_wins_remaining === 1 ? '' : 's'} remaining
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {comp.site_name}
+                        <div className="text-xs opacity-70" title={(comp.checked_at ?? comp.scraped_at) ?? undefined}>
+                          refreshed {formatAge(comp.checked_at ?? comp.scraped_at)}
+                        </div>
+                      </td>
+                      <td className="p-2 text-right">{withConfidence(fmtOdds(comp.total_tickets), comp.provenance?.totals)}</td>
+                      <td className="p-2 text-right">{withConfidence(fmtOdds(oneIn(chanceOfAnyWin(comp))), comp.provenance?.totals)}</td>
+                      <td className="p-2 text-right">{fmtInt(comp.remaining_tickets)}</td>
+                      <td
+                        className="p-2 text-right"
+                        title={comp.currency && comp.currency !== BASE_CURRENCY && comp.entry_fee_gbp != null ? `≈ ${fmtMoney(comp.entry_fee_gbp)}` : undefined}
+                      >
+                        {withConfidence(fmtMoney(comp.entry_fee ?? null, comp.currency), comp.provenance?.entry_fee)}
+                      </td>
+                      <td className="p-2 text-right" title={comp.ev_per_ticket != null ? `${fmtMoney(comp.ev_per_ticket, comp.currency)} per ticket` : undefined}>
+                        {withConfidence(fmtEv(comp.ev_per_pound, comp.currency), comp.provenance?.prize_value)}
+                      </td>
+                      <td className="p-2 text-center">
+                        <a href={comp.url} target="_blank" className="underline">Enter</a>
+                      </td>
+                      <td className="p-2 text-center">
+                        <button
+                          onClick={() => handleMarkEntered(comp.id)}
+                          disabled={isMarked || isBusy}
+                          className={`px-3 py-1 rounded-md border transition ${
+                            isMarked
+                              ? 'bg-wolf-grey text-midnight-blue cursor-not-allowed'
+                              : 'bg-electric-gold text-midnight-blue hover:bg-white'
+                          }`}
+                          title={isMarked ? 'Already marked as entered' : 'Mark as entered'}
+                        >
+                          {isMarked ? 'Entered ✓' : isBusy ? 'Marking…' : 'Mark Entered'}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </Fragment>
+            ))}
           </tbody>
         </table>
       )}
@@ -5,6 +5,7 @@ import { useState } from 'react';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { useRouter } from 'next/navigation';
 import type { Session } from '@supabase/supabase-js';
+import { CATEGORIES } from '@/lib/scrape/categories';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -16,6 +17,7 @@ if (typeof window !== 'undefined' && supabaseUrl && supabaseAnonKey) {
 
 export default function SearchPage() {
   const [query, setQuery] = useState('');
+  const [category, setCategory] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
@@ -39,7 +41,9 @@ export default function SearchPage() {
       }
 
       // Navigate to results page, which will filter out closed competitions
-      router.push(`/results?query=${encodeURIComponent(query)}`);
+      const params = new URLSearchParams({ query });
+      if (category) params.set('category', category);
+      router.push(`/results?${params.toString()}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -47,9 +51,12 @@ export default function SearchPage() {
     }
   };
 
+  // a category on its own is a valid search ("show me all the watches")
+  const canSearch = query.trim().length > 0 || category !== '';
+
   const onSubmit: React.FormEventHandler<HTMLFormElement> = (e) => {
     e.preventDefault();
-    if (!loading && query.trim().length > 0) {
+    if (!loading && canSearch) {
       void handleSearch();
     }
   };
@@ -70,9 +77,19 @@ export default function SearchPage() {
           aria-label="Search prizes"
         />
 
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="w-full p-3 border border-neon-red rounded-md bg-wolf-grey text-midnight-blue mb-3"
+          aria-label="Prize category"
+        >
+          <option value="">All categories</option>
+          {CATEGORIES.map((c) => <option key={c.key} value={c.key}>{c.label}</option>)}
+        </select>
+
         <button
           type="submit"
-          disabled={loading || query.trim().length === 0}
+          disabled={loading || !canSearch}
           className="inline-flex items-center justify-center gap-2 bg-electric-gold text-midnight-blue font-bold py-2 px-6 rounded-md hover:bg-neon-red hover:text-white transition disabled:opacity-60 disabled:cursor-not-allowed"
         >
           {loading && (
@@ -0,0 +1,143 @@
+// lib/scrape/adapters/base.ts
+// Default (generic) behaviour every adapter inherits unless it overrides it.
+import { load, type CheerioAPI } from 'cheerio';
+import type { ApiRow, Category, FieldSource, Rules, SiteCfg, Sourced } from '../types';
+import type { AdapterSpec, SiteAdapter } from './types';
+import { computeRemaining } from '../utils';
+import { provenanceOf } from '../provenance';
+import { extractEndsAt } from '../dates';
+import { extractEntryFee, readJsonLdProduct } from '../price';
+import { extractTotalsGeneric } from '../totals';
+import { extractInstantWins } from '../instantWins';
+import { extractPrizeValue } from '../value';
+import { classifyPrize, extractBreadcrumbs } from '../categories';
+import { extractFreeEntry, extractSkillQuestion } from '../entry';
+import { detectStatusDefault, isClosedStatus } from '../lifecycle';
+import { parseWinnersDefault } from '../winners';
+
+// Absolute, de-duplicated hrefs for every element matching `selector`
+export const harvestLinks = ($: CheerioAPI, selector: string, baseUrl: string): string[] => {
+  const out = new Set<string>();
+  $(selector).each((_, a) => {
+    const href = $(a).attr('href');
+    if (!href) return;
+    try { out.add(new URL(href, baseUrl).href); } catch { /* ignore bad hrefs */ }
+  });
+  return Array.from(out);
+};
+
+const sameHost = (u: string, base: URL): URL | null => {
+  try {
+    const url = new URL(u);
+    return url.hostname === base.hostname ? url : null;
+  } catch {
+    return null;
+  }
+};
+
+export const extractPrizeDefault = ($: CheerioAPI, rules?: Rules): Sourced<string> => {
+  const cascade: [FieldSource, () => string | undefined][] = [
+    ['json_ld', () => readJsonLdProduct($).name],
+    ['rules_selector', () => rules?.prize_selectors ? $(rules.prize_selectors.join(',')).first().text().trim() : ''],
+    ['selector', () => $('h1, h2.product_title, .woocommerce-loop-product__title').first().text().trim()],
+    ['selector', () => $('[class*="prize"]').first().text().trim()],
+    ['title', () => $('meta[property="og:title"]').attr('content')?.trim()],
+    ['title', () => $('title').text().trim()],
+  ];
+  for (const [source, read] of cascade) {
+    const value = read();
+    if (value) return { value, source };
+  }
+  return { value: '', source: 'none' };
+};
+
+// breadcrumbs first, then the title; runs after instant wins are on the row
+export const extractCategoriesDefault = ($: CheerioAPI, row: ApiRow, rules?: Rules): Category[] =>
+  classifyPrize({
+    prize: row.prize,
+    breadcrumbs: extractBreadcrumbs($, row.prize, rules),
+    hasInstantWins: !!row.instant_wins?.length,
+    rules,
+  });
+
+export function defineAdapter(spec: AdapterSpec): SiteAdapter {
+  const adapter: SiteAdapter = {
+    isCompetitionUrl: () => true,
+    extractPrize: extractPrizeDefault,
+    extractPrice: extractEntryFee,
+    extractTotals: extractTotalsGeneric,
+    extractEndsAt,
+    extractInstantWins,
+    extractPrizeValue,
+    extractCategories: extractCategoriesDefault,
+    extractFreeEntry,
+    extractSkillQuestion,
+    detectStatus: detectStatusDefault,
+    ...spec,
+
+    discoverLinks: spec.discoverLinks ?? (($, site: SiteCfg) => {
+      const links = harvestLinks($, site.link_selector, site.list_url);
+      if (links.length) return links;
+
+      // selector drifted: fall back to every same-host link the adapter accepts
+      let base: URL;
+      try { base = new URL(site.list_url); } catch { return []; }
+      return harvestLinks($, 'a[href]', site.list_url).filter((u) => {
+        const url = sameHost(u, base);
+        return !!url && adapter.isCompetitionUrl(url);
+      });
+    }),
+
+    parseDetail: spec.parseDetail ?? ((html, url, siteName, rules, ctx) => {
+      const $ = load(html);
+
+      const prize = adapter.extractPrize($, rules);
+      if (!prize.value) return null;
+
+      const entry_fee = adapter.extractPrice($, rules);
+      if (entry_fee.value == null) {
+        console.warn('[scrape] price not found; url=', url, 'site=', siteName);
+      }
+
+      const totals = adapter.extractTotals($, rules);
+      const remaining_final = totals.remaining ?? computeRemaining(totals.total, totals.sold);
+      const endsAt = adapter.extractEndsAt($, rules, ctx);
+      const value = adapter.extractPrizeValue($, prize.value, rules, entry_fee.value);
+
+      const row: ApiRow = {
+        prize: prize.value,
+        site_name: siteName,
+        entry_fee: entry_fee.value,
+        currency: entry_fee.currency,
+        total_tickets: totals.total,
+        tickets_sold: totals.sold,
+        remaining_tickets: remaining_final ?? undefined,
+        url,
+        ends_at: endsAt.value ?? null,
+        prize_value: value.value.value,
+        cash_alternative: value.cash_alternative,
+        free_entry: adapter.extractFreeEntry($, url, rules),
+        skill_question: adapter.extractSkillQuestion($, rules),
+        provenance: {
+          prize: provenanceOf(prize.source),
+          entry_fee: provenanceOf(entry_fee.source),
+          totals: provenanceOf(totals.total != null ? totals.source ?? 'derived' : 'none'),
+          ends_at: provenanceOf(endsAt.source),
+          prize_value: provenanceOf(value.value.source),
+        },
+      };
+      const instantWins = adapter.extractInstantWins($, rules);
+      if (instantWins.length) row.instant_wins = instantWins;
+      row.categories = adapter.extractCategories($, row, rules);
+      const verdict = adapter.detectStatus($, row, ctx);
+      row.status = verdict.status;
+      row.status_reason = verdict.reason;
+      row.is_closed = isClosedStatus(verdict.status);
+      return row;
+    }),
+
+    parseWinners: spec.parseWinners ?? ((html, pageUrl, rules, ctx) =>
+      parseWinnersDefault(load(html), pageUrl, (u) => adapter.isCompetitionUrl(u), rules, ctx)),
+  };
+  return adapter;
+}
@@ -0,0 +1,88 @@
+// lib/scrape/adapters/dcg.ts
+// Dream Car Giveaways: "sold / total" fraction next to a "Tickets sold" label.
+import type { CheerioAPI } from 'cheerio';
+import type { FieldSource, Rules, Totals } from '../types';
+import { toInt } from '../utils';
+import { extractTotalsFromSelectors, extractTotalsGeneric, scanScriptsAndAttrsForTotals } from '../totals';
+import { defineAdapter } from './base';
+
+// category/landing slugs under /competitions/ that aren't competitions
+const DENY_SLUGS = new Set(['cash','cars','tech','instant','winners','draws','terms']);
+
+export const extractTotalsDCG = ($: CheerioAPI, rules?: Rules): Totals => {
+  const selRes = extractTotalsFromSelectors($, rules);
+  if (selRes) return selRes;
+
+  const html = $.root().html() ?? '';
+  const text = $('body').text().replace(/\u00A0|\u202F/g, ' ');
+
+  const findFracNearSold = (src: string): { sold: number; total: number } | null => {
+    let m = src.match(/(\d[\d,]*)\s*\/\s*(\d[\d,]*)[^<]{0,80}Tickets\s*sold/i);
+    if (m) {
+      const sold = toInt(m[1]); const total = toInt(m[2]);
+      if (sold != null && total != null && sold <= total) return { sold, total };
+    }
+    m = src.match(/Tickets\s*sold[^<]{0,80}(\d[\d,]*)\s*\/\s*(\d[\d,]*)/i);
+    if (m) {
+      const sold = toInt(m[1]); const total = toInt(m[2]);
+      if (sold != null && total != null && sold <= total) return { sold, total };
+    }
+    return null;
+  };
+
+  const findRemaining = (src: string): number | null => {
+    const pats = [
+      /Tickets\s*remaining[^<]{0,40}(\d[\d,]*)/i,
+      /(\d[\d,]*)[^<]{0,40}Tickets\s*remaining/i,
+    ];
+    for (const re of pats) {
+      const m = src.match(re);
+      if (m?.[1]) return toInt(m[1]);
+    }
+    return null;
+  };
+
+  let sold: number | null = null;
+  let total: number | null = null;
+  let remaining: number | null = null;
+  let source: FieldSource = 'none';
+
+  const frac = findFracNearSold(html) ?? findFracNearSold(text);
+  if (frac) { sold = frac.sold; total = frac.total; source = 'text'; }
+
+  const rem = findRemaining(html) ?? findRemaining(text);
+  if (rem != null) remaining = rem;
+
+  if (total == null || sold == null || remaining == null) {
+    const scr = scanScriptsAndAttrsForTotals($, rules);
+    if (total == null && scr.total != null) { total = scr.total; source = 'script'; }
+    if (sold == null && scr.sold != null) sold = scr.sold;
+    if (remaining == null && scr.remaining != null) remaining = scr.remaining;
+  }
+
+  if (total == null || sold == null || remaining == null) {
+    const gen = extractTotalsGeneric($, rules);
+    if (total == null) { total = gen.total; source = gen.source ?? 'none'; }
+    if (sold == null) sold = gen.sold;
+    if (remaining == null) remaining = gen.remaining ?? null;
+  }
+
+  if (total == null && sold != null && remaining != null) { total = sold + remaining; source = 'derived'; }
+  if (sold == null && total != null && remaining != null) sold = total - remaining;
+  if (remaining == null && total != null && sold != null) remaining = total - sold;
+  if (total != null && sold != null && sold > total) sold = null;
+
+  return { total, sold, remaining: remaining ?? undefined, source };
+};
+
+export const dcg = defineAdapter({
+  key: 'dcg',
+  isCompetitionUrl: (url) => {
+    const m = url.href.match(/\/competitions\/([^\/?#]+)/i);
+    if (!m) return false;
+    const slug = m[1].toLowerCase();
+    if (DENY_SLUGS.has(slug)) return false;
+    return /[-\d]/.test(slug);
+  },
+  extractTotals: extractTotalsDCG,
+});
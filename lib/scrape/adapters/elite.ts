@@ -0,0 +1,37 @@
+// lib/scrape/adapters/elite.ts
+// Elite Competitions: progress bar shows "N% sold" alongside the max entries.
+import type { CheerioAPI } from 'cheerio';
+import type { Rules, Totals } from '../types';
+import { extractTotalsGeneric } from '../totals';
+import { defineAdapter } from './base';
+
+const DENY_SLUGS = new Set(['all','ending-soon','instant-wins','winners','entry-list','live-draws']);
+
+const extractTotalsElite = ($: CheerioAPI, rules?: Rules): Totals => {
+  const totals = extractTotalsGeneric($, {
+    total_patterns: [
+      'Max(?:imum)?\\s*(?:Entries|Tickets)\\s*:?\\s*([\\d,]+)',
+      '\\b([\\d,]+)\\s*entries\\b',
+    ],
+    ...rules,
+  });
+
+  // Only a percentage shown: derive sold from it
+  if (totals.sold == null && totals.total != null) {
+    const pct = $('body').text().match(/\b(\d{1,3}(?:\.\d+)?)\s*%\s*sold\b/i)?.[1];
+    if (pct != null && Number(pct) <= 100) {
+      const sold = Math.round((totals.total * Number(pct)) / 100);
+      return { ...totals, sold, remaining: totals.total - sold };
+    }
+  }
+  return totals;
+};
+
+export const elite = defineAdapter({
+  key: 'elite',
+  isCompetitionUrl: (url) => {
+    const m = url.pathname.match(/\/competitions\/([^\/?#]+)/i);
+    return !!m && !DENY_SLUGS.has(m[1].toLowerCase());
+  },
+  extractTotals: extractTotalsElite,
+});
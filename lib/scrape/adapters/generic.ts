@@ -0,0 +1,5 @@
+// lib/scrape/adapters/generic.ts
+// Rules-driven default: everything comes from base.ts + adapter_rules.
+import { defineAdapter } from './base';
+
+export const generic = defineAdapter({ key: 'generic' });
@@ -0,0 +1,30 @@
+// lib/scrape/adapters/index.ts
+// Adapter registry keyed by `sites.adapter_key`. New sites: add a module,
+// register it here and seed a `sites` row — the scrape route doesn't change.
+import type { SiteAdapter } from './types';
+import { generic } from './generic';
+import { revcomps } from './revcomps';
+import { dcg } from './dcg';
+import { sevenDays } from './sevenDays';
+import { elite } from './elite';
+import { woocommerce } from './woocommerce';
+
+export type { SiteAdapter, AdapterSpec, FeedResult } from './types';
+export { defineAdapter } from './base';
+
+const registry = new Map<string, SiteAdapter>();
+
+export function registerAdapter(adapter: SiteAdapter) {
+  registry.set(adapter.key, adapter);
+}
+
+[generic, revcomps, dcg, sevenDays, elite, woocommerce].forEach(registerAdapter);
+
+// Unknown keys fall back to the rules-driven generic adapter
+export function getAdapter(key: string): SiteAdapter {
+  const adapter = registry.get(key);
+  if (!adapter) console.warn(`[scrape] no adapter registered for "${key}"; using generic`);
+  return adapter ?? generic;
+}
+
+export const adapterKeys = () => Array.from(registry.keys());
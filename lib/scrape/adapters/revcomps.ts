@@ -0,0 +1,42 @@
+// lib/scrape/adapters/revcomps.ts
+// Rev Comps (WooCommerce): Store API first; HTML has "PRIZE HAS A MAX OF N TICKETS" +
+// SOLD/REMAINING labels.
+import type { CheerioAPI } from 'cheerio';
+import type { FieldSource, Rules, Totals } from '../types';
+import { toInt } from '../utils';
+import { extractTotalsFromSelectors, extractTotalsGeneric, scanScriptsAndAttrsForTotals } from '../totals';
+import { defineAdapter } from './base';
+import { loadStoreApi } from './woocommerce';
+
+export const extractTotalsRevComps = ($: CheerioAPI, rules?: Rules): Totals => {
+  const selRes = extractTotalsFromSelectors($, rules);
+  if (selRes) return selRes;
+
+  const scr = scanScriptsAndAttrsForTotals($, rules);
+  if (scr.total != null || scr.sold != null || scr.remaining != null) return scr;
+
+  const text = $('body').text();
+  const maxPhrase = toInt(text.match(/\bPRIZE HAS A MAX OF\s*([\d,]+)\s*TICKETS\b/i)?.[1]);
+  let sold = toInt(text.match(/\bSOLD:\s*([\d,]+)/i)?.[1]) ?? null;
+  const remaining = toInt(text.match(/\bREMAINING:\s*([\d,]+)/i)?.[1]) ?? null;
+
+  let total = maxPhrase ?? null;
+  let source: FieldSource = total != null ? 'text' : 'none';
+  if (total == null && sold != null && remaining != null) { total = sold + remaining; source = 'derived'; }
+  if (total != null && sold != null && sold > total) sold = null;
+
+  if (total == null) {
+    const g = extractTotalsGeneric($, rules?.fallback);
+    total = g.total;
+    source = g.source ?? 'none';
+    if (sold == null) sold = g.sold;
+  }
+  return { total, sold, remaining, source };
+};
+
+export const revcomps = defineAdapter({
+  key: 'revcomps',
+  isCompetitionUrl: (url) => /\/(product|competitions?)\//i.test(url.href),
+  extractTotals: extractTotalsRevComps,
+  loadFeed: loadStoreApi,
+});
@@ -0,0 +1,33 @@
+// lib/scrape/adapters/sevenDays.ts
+// 7Days Performance: car/bike comps with "Max Entries" and "Tickets Left" labels.
+import type { CheerioAPI } from 'cheerio';
+import type { Rules, Totals } from '../types';
+import { extractTotalsGeneric } from '../totals';
+import { defineAdapter } from './base';
+
+const DENY_SLUGS = new Set(['all','cars','bikes','cash','tech','instant-wins','winners','draw-results']);
+
+// Site labels first; adapter_rules patterns (if any) take precedence
+const extractTotalsSevenDays = ($: CheerioAPI, rules?: Rules): Totals =>
+  extractTotalsGeneric($, {
+    total_patterns: [
+      'Max(?:imum)?\\s*Entries\\s*:?\\s*([\\d,]+)',
+      'Total\\s*Entries\\s*:?\\s*([\\d,]+)',
+      'Number of Tickets\\s*([\\d,]+)',
+    ],
+    remaining_patterns: [
+      '\\b([\\d,]+)\\s*(?:tickets?|entries)\\s*left\\b',
+      'Tickets\\s*Left\\s*:?\\s*([\\d,]+)',
+      '\\b([\\d,]+)\\s*(?:tickets?|entries?)\\s*remaining\\b',
+    ],
+    ...rules,
+  });
+
+export const sevenDays = defineAdapter({
+  key: 'sevendays',
+  isCompetitionUrl: (url) => {
+    const m = url.pathname.match(/\/competitions?\/([^\/?#]+)/i);
+    return !!m && !DENY_SLUGS.has(m[1].toLowerCase());
+  },
+  extractTotals: extractTotalsSevenDays,
+});
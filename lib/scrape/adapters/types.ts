@@ -0,0 +1,60 @@
+// lib/scrape/adapters/types.ts
+import type { CheerioAPI } from 'cheerio';
+import type { ApiRow, Category, DrawResult, FreeEntry, InstantWin, ParseCtx, Price, Rules, SiteCfg, SkillQuestion, Sourced, Totals } from '../types';
+import type { PrizeValue } from '../value';
+import type { StatusVerdict } from '../lifecycle';
+
+/**
+ * A site adapter owns everything site-specific about a crawl: which links on a
+ * list page are competitions, and how a detail page turns into an ApiRow.
+ * Adapters are looked up by `sites.adapter_key` (see ./index.ts).
+ */
+export interface SiteAdapter {
+  key: string;
+
+  /** Harvest competition detail URLs from a fetched list page. */
+  discoverLinks($: CheerioAPI, site: SiteCfg): string[];
+
+  /** Used by the default discoverLinks when `link_selector` matches nothing. */
+  isCompetitionUrl(url: URL): boolean;
+
+  /**
+   * Parse a detail page. Returns null when the page isn't a competition.
+   * `ctx` carries the site's timezone for wall-clock dates (default Europe/London),
+   * the clock, and the URL the fetch was redirected to.
+   */
+  parseDetail(html: string, url: string, siteName: string, rules?: Rules, ctx?: ParseCtx): ApiRow | null;
+
+  // Field extractors report which strategy matched (Totals.source for totals)
+  extractPrize($: CheerioAPI, rules?: Rules): Sourced<string>;
+  extractPrice($: CheerioAPI, rules?: Rules): Price;
+  extractTotals($: CheerioAPI, rules?: Rules): Totals;
+  extractEndsAt($: CheerioAPI, rules?: Rules, ctx?: ParseCtx): Sourced<string | null>;
+  extractInstantWins($: CheerioAPI, rules?: Rules): InstantWin[];
+  extractPrizeValue($: CheerioAPI, prize: string, rules?: Rules, entryFee?: number | null): PrizeValue;
+  /** Categories for the parsed row (primary first); sees its prize and instant wins. */
+  extractCategories($: CheerioAPI, row: ApiRow, rules?: Rules): Category[];
+  extractFreeEntry($: CheerioAPI, url: string, rules?: Rules): FreeEntry;
+  extractSkillQuestion($: CheerioAPI, rules?: Rules): SkillQuestion | null;
+
+  /** Lifecycle status, run on the parsed row: sold out, awaiting the draw, drawn, cancelled. */
+  detectStatus($: CheerioAPI, row: ApiRow, ctx?: ParseCtx): StatusVerdict;
+
+  /** Parse the site's winners / draw-results page (`sites.winners_url`) into one result per draw. */
+  parseWinners(html: string, pageUrl: string, rules?: Rules, ctx?: ParseCtx): DrawResult[];
+
+  /**
+   * Optional structured catalogue (store API, product feed). Replaces list
+   * discovery when it returns a result; null means "not available, crawl HTML".
+   */
+  loadFeed?(site: SiteCfg, fetchPage: (url: string) => Promise<string>): Promise<FeedResult | null>;
+}
+
+export type FeedResult = {
+  rows: ApiRow[];       // complete rows, no detail fetch needed
+  incomplete: string[]; // competition URLs the feed can't fully describe → parse their HTML
+  pages: number;        // feed requests made
+};
+
+/** What an adapter module provides; anything omitted uses the generic behaviour. */
+export type AdapterSpec = Partial<SiteAdapter> & { key: string };
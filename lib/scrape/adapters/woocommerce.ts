@@ -0,0 +1,174 @@
+// lib/scrape/adapters/woocommerce.ts
+// WooCommerce sites: the whole catalogue from the public Store API
+// (/wp-json/wc/store/products) instead of HTML. Lottery plugins expose max
+// tickets / sold / end date as product meta; products without them are still
+// parsed from their HTML page, and so is everything when the API is disabled.
+import { load } from 'cheerio';
+import type { ApiRow, SiteCfg } from '../types';
+import type { FeedResult } from './types';
+import { toInt } from '../utils';
+import { provenanceOf } from '../provenance';
+import { DEFAULT_TIMEZONE, toUtcIso, tryParseDateUKLike } from '../dates';
+import { DEFAULT_MAX_PAGES } from '../discovery';
+import { StartDeadlineError } from '../crawl';
+import { BASE_CURRENCY, normalizeCurrency } from '../currency';
+import { classifyPrize } from '../categories';
+import { defineAdapter } from './base';
+import { detectStatusDefault, isClosedStatus } from '../lifecycle';
+
+export const STORE_API_PATH = '/wp-json/wc/store/products';
+const PER_PAGE = 100;
+
+type StoreProduct = {
+  id?: number;
+  name?: string;
+  permalink?: string;
+  type?: string;
+  is_in_stock?: boolean;
+  low_stock_remaining?: number | null;
+  prices?: { price?: string; currency_code?: string; currency_minor_unit?: number };
+  meta_data?: { key?: string; value?: unknown }[];
+  categories?: { name?: string }[];
+  extensions?: Record<string, unknown>;
+};
+
+// Meta key spellings seen across lottery plugins (leading "_" stripped)
+const META_KEYS = {
+  total: ['max_tickets', 'lottery_max_tickets', 'max_entries', 'total_tickets'],
+  sold: ['lottery_participants_count', 'participants_count', 'tickets_sold', 'sold_tickets'],
+  remaining: ['remaining_tickets', 'tickets_remaining', 'lottery_remaining'],
+  ends_at: ['lottery_dates_to', 'end_date', 'draw_date', 'ends_at'],
+};
+
+// meta_data entries plus any primitive under `extensions`, keyed by bare name
+const productMeta = (p: StoreProduct): Map<string, unknown> => {
+  const meta = new Map<string, unknown>();
+  const put = (key: string, value: unknown) => {
+    if (value == null || value === '' || typeof value === 'object') return;
+    meta.set(key.replace(/^_+/, '').toLowerCase(), value);
+  };
+  (p.meta_data ?? []).forEach((m) => m.key && put(m.key, m.value));
+  const walk = (v: unknown) => {
+    if (!v || typeof v !== 'object') return;
+    Object.entries(v).forEach(([k, x]) => (x && typeof x === 'object' ? walk(x) : put(k, x)));
+  };
+  walk(p.extensions);
+  return meta;
+};
+
+const pick = (meta: Map<string, unknown>, keys: string[]) => {
+  for (const k of keys) if (meta.has(k)) return meta.get(k);
+  return undefined;
+};
+
+const decodeEntities = (s: string) => load(s).root().text().trim();
+
+// null when the product isn't a competition we can describe without its page
+const productToRow = (p: StoreProduct, site: SiteCfg): ApiRow | null => {
+  if (!p.name || !p.permalink) return null;
+  const meta = productMeta(p);
+
+  const total = toInt(String(pick(meta, META_KEYS.total) ?? '')) ?? null;
+  if (total == null) return null;
+  let sold = toInt(String(pick(meta, META_KEYS.sold) ?? '')) ?? null;
+  if (sold != null && sold > total) sold = null;
+  const remaining =
+    toInt(String(pick(meta, META_KEYS.remaining) ?? '')) ??
+    p.low_stock_remaining ??
+    (sold != null ? total - sold : undefined);
+
+  const minor = p.prices?.currency_minor_unit ?? 2;
+  const rawPrice = Number(p.prices?.price);
+  const entry_fee = p.prices?.price != null && Number.isFinite(rawPrice) ? rawPrice / 10 ** minor : null;
+
+  const endsRaw = pick(meta, META_KEYS.ends_at);
+  const endsDate = endsRaw != null ? tryParseDateUKLike(String(endsRaw), { timezone: site.timezone ?? DEFAULT_TIMEZONE }) : null;
+  const ends_at = endsDate ? toUtcIso(endsDate) : null;
+
+  const prize = decodeEntities(p.name);
+  const row: ApiRow = {
+    prize,
+    site_name: site.name,
+    entry_fee,
+    currency: normalizeCurrency(p.prices?.currency_code) ?? BASE_CURRENCY,
+    total_tickets: total,
+    tickets_sold: sold,
+    remaining_tickets: remaining ?? undefined,
+    url: p.permalink,
+    ends_at,
+    // product categories stand in for breadcrumbs
+    categories: classifyPrize({ prize, breadcrumbs: (p.categories ?? []).map((c) => decodeEntities(c.name ?? '')).filter(Boolean) }),
+    provenance: {
+      prize: provenanceOf('api'),
+      entry_fee: provenanceOf(entry_fee != null ? 'api' : 'none'),
+      totals: provenanceOf('api'),
+      ends_at: provenanceOf(ends_at ? 'api' : 'none'),
+    },
+  };
+  const verdict = p.is_in_stock === false
+    ? { status: 'sold_out' as const, reason: 'out of stock in store API' }
+    : detectStatusDefault(load(''), row);
+  row.status = verdict.status;
+  row.status_reason = verdict.reason;
+  row.is_closed = isClosedStatus(verdict.status);
+  return row;
+};
+
+export async function loadStoreApi(
+  site: SiteCfg,
+  fetchPage: (url: string) => Promise<string>,
+): Promise<FeedResult | null> {
+  const endpoint = site.discovery?.store_api;
+  if (endpoint === false) return null;
+
+  let base: URL;
+  try { base = new URL(endpoint || STORE_API_PATH, site.list_url); } catch { return null; }
+  const maxPages = Math.max(1, site.discovery?.max_pages ?? DEFAULT_MAX_PAGES);
+
+  const products: StoreProduct[] = [];
+  let pages = 0;
+  for (let n = 1; n <= maxPages; n++) {
+    const url = new URL(base);
+    url.searchParams.set('per_page', String(PER_PAGE));
+    url.searchParams.set('page', String(n));
+
+    let batch: unknown;
+    try {
+      pages++;
+      batch = JSON.parse(await fetchPage(url.href));
+    } catch (e) {
+      if (e instanceof StartDeadlineError) throw e; // out of time: a cut-short feed would drop products
+      // API disabled / blocked / not JSON on the first page → crawl HTML instead
+      if (n === 1) {
+        console.warn(`[scrape] ${site.name}: store API unavailable (${e instanceof Error ? e.message : e})`);
+        return null;
+      }
+      break;
+    }
+    if (!Array.isArray(batch)) {
+      if (n === 1) return null;
+      break;
+    }
+    products.push(...(batch as StoreProduct[]));
+    if (batch.length < PER_PAGE) break;
+  }
+
+  // shops that sell merch too: lottery-typed products are the competitions
+  const lotteries = products.filter((p) => p.type === 'lottery');
+  const candidates = lotteries.length ? lotteries : products;
+
+  const rows: ApiRow[] = [];
+  const incomplete: string[] = [];
+  for (const p of candidates) {
+    const row = productToRow(p, site);
+    if (row) rows.push(row);
+    else if (p.permalink) incomplete.push(p.permalink);
+  }
+  return { rows, incomplete, pages };
+}
+
+export const woocommerce = defineAdapter({
+  key: 'woocommerce',
+  isCompetitionUrl: (url) => /\/(product|competitions?)\//i.test(url.pathname),
+  loadFeed: loadStoreApi,
+});
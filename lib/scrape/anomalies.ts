@@ -0,0 +1,164 @@
+// lib/scrape/anomalies.ts
+// Plausibility check of a fresh parse against the values already stored for the
+// same URL. Rows that fail are held in competition_quarantine for an admin to
+// approve or reject (see 022_quarantine.sql) instead of overwriting good data.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CompetitionStatus, DbRow, InstantWin } from './types';
+import { prizeKey, stripPrizeExtras } from './grouping';
+
+export type StoredValues = {
+  id: string;
+  url: string;
+  prize: string;
+  entry_fee: number | null;
+  currency: string | null;
+  total_tickets: number | null;
+  tickets_sold: number | null;
+  status: CompetitionStatus | null;
+  status_reason: string | null;
+};
+
+export type AnomalyKind = 'sold_decreased' | 'total_changed' | 'fee_jump' | 'prize_changed';
+
+export type Anomaly = {
+  kind: AnomalyKind;
+  field: 'tickets_sold' | 'total_tickets' | 'entry_fee' | 'prize';
+  previous: string | number | null;
+  value: string | number | null;
+};
+
+export const MAX_FEE_CHANGE = 0.5;        // relative: £0.99 → £1.50 is fine, £0.99 → £100 isn't
+export const MIN_TITLE_SIMILARITY = 0.5;  // shared title words (Jaccard) below which it's another prize
+
+// A rejection silences the same values for this long, not for good: the stored
+// row isn't updated while a parse is held, so the review has to come back
+export const REJECTION_TTL_DAYS = 7;
+
+const LOAD_CHUNK = 200;
+
+// ---------- detection ----------
+const STOPWORDS = new Set(['win', 'a', 'an', 'the', 'and', 'or', 'with', 'plus', 'of', 'for']);
+
+const titleWords = (prize: string) =>
+  new Set(stripPrizeExtras(prize).toLowerCase().split(/[^a-z0-9]+/).filter((w) => w && !STOPWORDS.has(w)));
+
+export const titleSimilarity = (a: string, b: string): number => {
+  const wa = titleWords(a);
+  const wb = titleWords(b);
+  if (!wa.size && !wb.size) return 1;
+  let shared = 0;
+  for (const w of wa) if (wb.has(w)) shared++;
+  return shared / (wa.size + wb.size - shared);
+};
+
+// A value that disappears (null) is not an anomaly here: coverage drops show up
+// in the run metrics instead.
+export const detectAnomalies = (prev: StoredValues, next: DbRow): Anomaly[] => {
+  const out: Anomaly[] = [];
+
+  if (prev.tickets_sold != null && next.tickets_sold != null && next.tickets_sold < prev.tickets_sold) {
+    out.push({ kind: 'sold_decreased', field: 'tickets_sold', previous: prev.tickets_sold, value: next.tickets_sold });
+  }
+  if (prev.total_tickets != null && next.total_tickets != null && next.total_tickets !== prev.total_tickets) {
+    out.push({ kind: 'total_changed', field: 'total_tickets', previous: prev.total_tickets, value: next.total_tickets });
+  }
+  if (prev.entry_fee != null && next.entry_fee != null && prev.entry_fee > 0) {
+    const sameCurrency = (prev.currency ?? next.currency) === next.currency;
+    const change = Math.abs(next.entry_fee - prev.entry_fee) / prev.entry_fee;
+    if (!sameCurrency || change > MAX_FEE_CHANGE) {
+      out.push({ kind: 'fee_jump', field: 'entry_fee', previous: prev.entry_fee, value: next.entry_fee });
+    }
+  }
+  const prevKey = prizeKey(prev.prize);
+  const nextKey = prizeKey(next.prize);
+  // structured keys (cash:GBP:5000, brand:ref) are exact; free text gets some slack
+  const structured = !!prevKey?.includes(':') && !!nextKey?.includes(':');
+  if (
+    prevKey && nextKey && prevKey !== nextKey &&
+    (structured || titleSimilarity(prev.prize, next.prize) < MIN_TITLE_SIMILARITY)
+  ) {
+    out.push({ kind: 'prize_changed', field: 'prize', previous: prev.prize, value: next.prize });
+  }
+  return out;
+};
+
+// the same implausible values, seen again, shouldn't reopen a fresh rejection
+const fingerprint = (anomalies: Anomaly[]) => anomalies.map((a) => `${a.field}=${a.value}`).join('|');
+
+// ---------- storage ----------
+export async function loadStoredValues(
+  supabase: SupabaseClient,
+  urls: string[],
+): Promise<Map<string, StoredValues>> {
+  const out = new Map<string, StoredValues>();
+  for (let i = 0; i < urls.length; i += LOAD_CHUNK) {
+    const { data, error } = await supabase
+      .from('competitions')
+      .select('id,url,prize,entry_fee,currency,total_tickets,tickets_sold,status,status_reason')
+      .in('url', urls.slice(i, i + LOAD_CHUNK));
+    if (error) throw error; // without the previous values every row would go through unchecked
+    (data ?? []).forEach((r: StoredValues) => out.set(r.url, r));
+  }
+  return out;
+}
+
+// instant_wins: the page's instant-win table, applied with the row on approval
+export type HeldRow = { row: DbRow; previous: StoredValues; anomalies: Anomaly[]; instant_wins: InstantWin[] };
+export type Rejection = { url: string; fingerprint: string; reviewed_at: string | null };
+
+// Held rows that need a review entry: all but those rejected with the same values lately
+export const toReview = (held: HeldRow[], rejected: Rejection[], now = Date.now()): HeldRow[] => {
+  const since = now - REJECTION_TTL_DAYS * 86_400_000;
+  const dismissed = new Set(
+    rejected
+      .filter((r) => r.reviewed_at && Date.parse(r.reviewed_at) > since)
+      .map((r) => `${r.url}\0${r.fingerprint}`)
+  );
+  return held.filter((h) => !dismissed.has(`${h.row.url}\0${fingerprint(h.anomalies)}`));
+};
+
+// Replaces any pending review for the same URL with the latest parse
+export async function writeQuarantine(
+  supabase: SupabaseClient,
+  held: HeldRow[],
+  runId?: number,
+): Promise<number> {
+  if (!held.length) return 0;
+  const urls = held.map((h) => h.row.url);
+
+  const { data: rejected } = await supabase
+    .from('competition_quarantine')
+    .select('url,fingerprint,reviewed_at')
+    .eq('status', 'rejected')
+    .gte('reviewed_at', new Date(Date.now() - REJECTION_TTL_DAYS * 86_400_000).toISOString())
+    .in('url', urls);
+
+  const rows = toReview(held, (rejected ?? []) as Rejection[])
+    .map((h) => ({
+      competition_id: h.previous.id,
+      url: h.row.url,
+      site_name: h.row.site_name,
+      run_id: runId ?? null,
+      anomalies: h.anomalies,
+      fingerprint: fingerprint(h.anomalies),
+      previous: h.previous,
+      proposed: h.row,
+      instant_wins: h.instant_wins,
+    }));
+
+  const { error: delError } = await supabase
+    .from('competition_quarantine')
+    .delete()
+    .eq('status', 'pending')
+    .in('url', urls);
+  if (delError) console.error('[scrape] quarantine cleanup error:', delError.message);
+  if (!rows.length) return 0;
+
+  const { error } = await supabase.from('competition_quarantine').insert(rows);
+  if (error) {
+    // the rows are still held back; only the review entry is lost
+    console.error('[scrape] quarantine insert error:', error.message);
+    return 0;
+  }
+  return rows.length;
+}
@@ -0,0 +1,28 @@
+// lib/scrape/auth.ts
+import type { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/* ---------- Cron guard (scrape + preview routes) ---------- */
+const CRON_SECRET = process.env.CRON_SECRET;
+const IS_DEV = process.env.NODE_ENV !== 'production';
+export function isAuthorized(req: NextRequest): boolean {
+  if (IS_DEV) return true; // allow local/dev testing
+  const key = req.headers.get('x-cron-key');
+  return !!CRON_SECRET && key === CRON_SECRET;
+}
+
+/* ---------- Targeted scrapes: cron key, or a signed-in user ---------- */
+export type Requester = { kind: 'service' } | { kind: 'user'; id: string; tier: string };
+
+// Users send their Supabase access token as `Authorization: Bearer <token>`;
+// `supabase` is the service client, so the profile read isn't subject to RLS.
+export async function resolveRequester(req: NextRequest, supabase: SupabaseClient): Promise<Requester | null> {
+  if (isAuthorized(req)) return { kind: 'service' };
+  const token = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  const { data: profile } = await supabase.from('profiles').select('tier').eq('id', data.user.id).maybeSingle();
+  return { kind: 'user', id: data.user.id, tier: profile?.tier ?? 'free' };
+}
@@ -0,0 +1,124 @@
+// lib/scrape/categories.ts
+// Prize categories: the site's own breadcrumbs / product categories when the
+// page has them, otherwise keywords in the prize title. adapter_rules can add
+// patterns per category (rules.category_patterns) and breadcrumb selectors.
+import type { CheerioAPI } from 'cheerio';
+import type { Category, Rules } from './types';
+import { jsonLdNodes } from './price';
+import { stripPrizeExtras } from './grouping';
+
+export const CATEGORIES: { key: Category; label: string }[] = [
+  { key: 'cars', label: 'Cars' },
+  { key: 'motorbikes', label: 'Motorbikes' },
+  { key: 'cash', label: 'Cash' },
+  { key: 'watches', label: 'Watches' },
+  { key: 'tech', label: 'Tech' },
+  { key: 'holidays', label: 'Holidays' },
+  { key: 'instant-win', label: 'Instant wins' },
+];
+
+export const isCategory = (s?: string | null): s is Category => CATEGORIES.some((c) => c.key === s);
+
+// Checked in this order; the first hit is the primary category
+const DEFAULT_PATTERNS: Record<Category, string[]> = {
+  cash: [
+    '^\\s*(?:win\\s+)?[£€$]\\s*\\d[\\d,.]*\\s*(?:k|m)?\\b',
+    '\\bcash\\b', '\\btax[-\\s]*free\\b', '\\bsite\\s+credit\\b',
+  ],
+  watches: [
+    '\\bwatch(?:es)?\\b', '\\brolex\\b', '\\bomega\\b', '\\btag\\s*heuer\\b', '\\bbreitling\\b', '\\bcartier\\b',
+    '\\bpatek\\b', '\\baudemars\\b', '\\broyal\\s*oak\\b', '\\btudor\\b', '\\bhublot\\b', '\\biwc\\b',
+    '\\bsubmariner\\b', '\\bdaytona\\b', '\\bseamaster\\b', '\\bspeedmaster\\b', '\\bdatejust\\b',
+  ],
+  motorbikes: [
+    '\\bmotor\\s*(?:bike|cycle)s?\\b', '\\bsuperbikes?\\b', '\\bdirt\\s*bikes?\\b', '\\bscooters?\\b', '\\bquad\\s*bikes?\\b',
+    '\\bducati\\b', '\\byamaha\\b', '\\bkawasaki\\b', '\\btriumph\\b', '\\bharley\\b', '\\bktm\\b', '\\baprilia\\b',
+    '\\bhusqvarna\\b', '\\bpanigale\\b', '\\br1m?\\b', '\\bs\\s?1000\\s?rr\\b', '\\bfireblade\\b', '\\bsur-?ron\\b',
+  ],
+  cars: [
+    '\\b(?:super)?cars?\\b', '\\baudi\\b', '\\bbmw\\b', '\\bmercedes\\b', '\\bamg\\b', '\\bporsche\\b', '\\btesla\\b',
+    '\\brange\\s*rover\\b', '\\bland\\s*rover\\b', '\\bdefender\\b', '\\bford\\b', '\\bmustang\\b', '\\bvolkswagen\\b',
+    '\\bvw\\b', '\\bgolf\\s*r\\b', '\\btoyota\\b', '\\bland\\s*cruiser\\b', '\\bferrari\\b', '\\blamborghini\\b',
+    '\\bmclaren\\b', '\\bbentley\\b', '\\brolls[-\\s]*royce\\b', '\\baston\\s*martin\\b', '\\bmaserati\\b',
+    '\\bjaguar\\b', '\\blexus\\b', '\\bnissan\\b', '\\bvolvo\\b', '\\bskoda\\b', '\\bcupra\\b', '\\bkia\\b',
+    '\\bhyundai\\b', '\\bmini\\s*cooper\\b', '\\bjeep\\b', '\\bvauxhall\\b', '\\bcamper\\s*vans?\\b', '\\bpick[-\\s]?up\\b',
+  ],
+  tech: [
+    '\\btech\\b', '\\biphone\\b', '\\bipad\\b', '\\bmacbook\\b', '\\bimac\\b', '\\bairpods\\b', '\\bapple\\b',
+    '\\bsamsung\\b', '\\bgalaxy\\b', '\\bps5\\b', '\\bplaystation\\b', '\\bxbox\\b', '\\bnintendo\\b',
+    '\\bsteam\\s*deck\\b', '\\blaptop\\b', '\\bgaming\\s*pc\\b', '\\b(?:oled|qled)\\b', '\\btvs?\\b', '\\bconsole\\b',
+    '\\bgopro\\b', '\\bdji\\b', '\\bdrone\\b', '\\bcamera\\b', '\\bdyson\\b', '\\brtx\\b', '\\bmeta\\s*quest\\b',
+  ],
+  holidays: [
+    '\\bholidays?\\b', '\\bvacation\\b', '\\bgetaway\\b', '\\btrip\\b', '\\bcruise\\b', '\\bflights?\\b',
+    '\\ball[-\\s]inclusive\\b', '\\bhotel\\b', '\\bresort\\b', '\\bcity\\s*break\\b', '\\bweekend\\s*away\\b',
+    '\\btravel\\b', '\\bmaldives\\b', '\\bdisney(?:land|world)?\\b', '\\bsafari\\b', '\\bski(?:ing)?\\b',
+  ],
+  'instant-win': ['\\binstant[-\\s]*wins?\\b'],
+};
+
+const ORDER = Object.keys(DEFAULT_PATTERNS) as Category[];
+
+const compile = (rules?: Rules): Map<Category, RegExp[]> => {
+  const out = new Map<Category, RegExp[]>();
+  for (const cat of ORDER) {
+    const extra = rules?.category_patterns?.[cat] ?? [];
+    out.set(cat, [...extra, ...DEFAULT_PATTERNS[cat]].map((p) => new RegExp(p, 'i')));
+  }
+  return out;
+};
+
+const matchAll = (texts: string[], patterns: Map<Category, RegExp[]>): Category[] =>
+  ORDER.filter((cat) => texts.some((t) => patterns.get(cat)!.some((re) => re.test(t))));
+
+// ---------- breadcrumbs ----------
+const DEFAULT_BREADCRUMBS = [
+  '.woocommerce-breadcrumb a', 'nav.breadcrumb a', '.breadcrumb a', '.breadcrumbs a',
+  '[aria-label="breadcrumb"] a', '.posted_in a', '.product_meta a[rel="tag"]',
+];
+
+export const extractBreadcrumbs = ($: CheerioAPI, prize: string, rules?: Rules): string[] => {
+  const crumbs: string[] = [];
+  for (const list of jsonLdNodes($, 'BreadcrumbList')) {
+    const items = Array.isArray(list.itemListElement) ? list.itemListElement : [];
+    for (const it of items) crumbs.push(String(it?.name ?? it?.item?.name ?? ''));
+  }
+  const selectors = [...(rules?.breadcrumb_selectors ?? []), ...DEFAULT_BREADCRUMBS];
+  $(selectors.join(',')).each((_, el) => { crumbs.push($(el).text()); });
+
+  // the trail ends with the prize itself, which says nothing the title doesn't
+  const seen = new Set<string>();
+  return crumbs
+    .map((c) => c.replace(/\s+/g, ' ').trim())
+    .filter((c) => {
+      const k = c.toLowerCase();
+      if (!c || k === 'home' || k === prize.trim().toLowerCase() || seen.has(k)) return false;
+      seen.add(k);
+      return true;
+    });
+};
+
+// ---------- classify ----------
+export const classifyPrize = (input: {
+  prize: string;
+  breadcrumbs?: string[];
+  hasInstantWins?: boolean;
+  rules?: Rules;
+}): Category[] => {
+  const patterns = compile(input.rules);
+  const crumbs = input.breadcrumbs ?? [];
+  // "BMW M4 + £2,000 Cash" is a car; "or £35k cash" alternatives don't make it cash
+  const title = stripPrizeExtras(input.prize);
+
+  // the site's own category wins over guessing from the title
+  const prizeCats = (texts: string[]) => matchAll(texts, patterns).filter((c) => c !== 'instant-win');
+  let cats: Category[] = crumbs.length ? prizeCats(crumbs) : [];
+  if (!cats.length) cats = prizeCats([title]);
+  // bike models share brands with cars (BMW, Honda): a bike is not also a car
+  if (cats.includes('motorbikes')) cats = cats.filter((c) => c !== 'cars');
+
+  if (input.hasInstantWins || matchAll([input.prize, ...crumbs], patterns).includes('instant-win')) {
+    cats.push('instant-win');
+  }
+  return cats;
+};
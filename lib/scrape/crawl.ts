@@ -0,0 +1,89 @@
+// lib/scrape/crawl.ts
+// Crawl scheduling: sites run in parallel, requests to one host are bounded.
+import { sleep } from './utils';
+
+export const SITE_CONCURRENCY = 4;
+export const MAX_PER_HOST = 2;
+
+type HostState = { active: number; nextStartAt: number; waiters: (() => void)[] };
+
+// The host's next free start slot is after the caller's `startBy`
+export class StartDeadlineError extends Error {
+  constructor(public url: string) {
+    super(`no start slot before the deadline for ${url}`);
+    this.name = 'StartDeadlineError';
+  }
+}
+
+export type HostLimiter = {
+  /**
+   * Run `task` once the host of `url` has a free slot. At most `MAX_PER_HOST`
+   * tasks run per host, and starts are spaced at least `spacingMs` apart
+   * (`sites.rate_limit_ms`). With `startBy`, a task whose slot comes later is
+   * refused with StartDeadlineError instead of slept for.
+   */
+  run<T>(url: string, spacingMs: number | null, task: () => Promise<T>, startBy?: number): Promise<T>;
+};
+
+export function createHostLimiter(maxPerHost = MAX_PER_HOST): HostLimiter {
+  const hosts = new Map<string, HostState>();
+
+  const stateFor = (url: string): HostState => {
+    let host = url;
+    try { host = new URL(url).hostname; } catch { /* group bad URLs by themselves */ }
+    let st = hosts.get(host);
+    if (!st) {
+      st = { active: 0, nextStartAt: 0, waiters: [] };
+      hosts.set(host, st);
+    }
+    return st;
+  };
+
+  // false when the slot would start after `startBy` (nothing reserved)
+  const acquire = async (st: HostState, spacingMs: number, startBy: number): Promise<boolean> => {
+    while (st.active >= maxPerHost) {
+      await new Promise<void>((resolve) => st.waiters.push(resolve));
+    }
+    const startAt = Math.max(Date.now(), st.nextStartAt);
+    if (startAt > startBy) {
+      st.waiters.shift()?.();
+      return false;
+    }
+    st.active++;
+    // reserve the next start slot before sleeping so concurrent callers queue up behind it
+    st.nextStartAt = startAt + spacingMs;
+    await sleep(startAt - Date.now());
+    return true;
+  };
+
+  const release = (st: HostState) => {
+    st.active--;
+    st.waiters.shift()?.();
+  };
+
+  return {
+    async run(url, spacingMs, task, startBy = Infinity) {
+      const st = stateFor(url);
+      if (!(await acquire(st, Math.max(0, spacingMs ?? 0), startBy))) throw new StartDeadlineError(url);
+      try {
+        return await task();
+      } finally {
+        release(st);
+      }
+    },
+  };
+}
+
+// Promise.all with at most `limit` callbacks in flight; results keep input order
+export async function mapPool<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const out = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return out;
+}
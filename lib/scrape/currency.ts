@@ -0,0 +1,51 @@
+// lib/scrape/currency.ts
+// Currency of a scraped price (symbol / ISO code) and conversion to GBP from a
+// local rate table.
+
+export const BASE_CURRENCY = 'GBP';
+
+// GBP per unit of each currency. Maintained by hand — only used to compare and
+// sort competitions across currencies, never shown as an exact price.
+export const GBP_RATES: Record<string, number> = {
+  GBP: 1,
+  EUR: 0.86,
+  USD: 0.75,
+};
+
+const SYMBOLS: [RegExp, string][] = [
+  [/£/, 'GBP'],
+  [/€/, 'EUR'],
+  [/\$/, 'USD'],
+];
+
+// Symbol wins over a bare ISO code; null when the text names no currency
+export const detectCurrency = (text?: string | null): string | null => {
+  if (!text) return null;
+  for (const [re, code] of SYMBOLS) if (re.test(text)) return code;
+  const iso = text.match(/\b(GBP|EUR|USD)\b/i)?.[1];
+  return iso ? iso.toUpperCase() : null;
+};
+
+export const normalizeCurrency = (code?: string | null): string | null => {
+  const c = code?.trim().toUpperCase();
+  return c && /^[A-Z]{3}$/.test(c) ? c : null;
+};
+
+export const toGbp = (amount: number | null | undefined, currency?: string | null): number | null => {
+  if (amount == null) return null;
+  const rate = GBP_RATES[currency ?? BASE_CURRENCY];
+  return rate == null ? null : Math.round(amount * rate * 100) / 100;
+};
+
+export const formatMoney = (amount: number | null | undefined, currency?: string | null): string => {
+  if (amount == null) return 'N/A';
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: currency || BASE_CURRENCY }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`; // unknown ISO code
+  }
+};
+
+// "£1", "€1": EV per unit is a ratio of two prices in the site's own currency,
+// so label it with that currency rather than assuming pounds
+export const oneUnitOf = (currency?: string | null): string => formatMoney(1, currency).replace(/\.00$/, '');
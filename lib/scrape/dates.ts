@@ -0,0 +1,240 @@
+// lib/scrape/dates.ts
+// ends_at helpers: UK-style date parsing + close-date discovery on detail pages.
+// Times without an explicit offset are wall-clock times in the site's timezone
+// (Europe/London unless sites.timezone says otherwise), so BST/GMT is handled.
+import type { CheerioAPI } from 'cheerio';
+import type { ParseCtx, Rules, Sourced } from './types';
+
+export const DEFAULT_TIMEZONE = 'Europe/London';
+
+export const toUtcIso = (d: Date | string) => (d instanceof Date ? d : new Date(d)).toISOString();
+
+// ---------- timezone maths ----------
+const fmtCache = new Map<string, Intl.DateTimeFormat>();
+const zoneFormat = (tz: string) => {
+  let f = fmtCache.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-GB', {
+      timeZone: tz, hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    fmtCache.set(tz, f);
+  }
+  return f;
+};
+
+// Wall-clock fields of an instant in `tz`
+export const zonedParts = (d: Date, tz: string) => {
+  const parts = Object.fromEntries(zoneFormat(tz).formatToParts(d).map((p) => [p.type, p.value]));
+  return {
+    year: Number(parts.year), month: Number(parts.month) - 1, day: Number(parts.day),
+    hour: Number(parts.hour), minute: Number(parts.minute), second: Number(parts.second),
+  };
+};
+
+// local − UTC at a (whole-second) instant
+const offsetMs = (utcMs: number, tz: string) => {
+  const p = zonedParts(new Date(utcMs), tz);
+  return Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second) - utcMs;
+};
+
+// Wall-clock time in `tz` → instant. Times skipped by a spring-forward jump land
+// after the jump (01:30 → 02:30 BST); repeated autumn times resolve to the later
+// (GMT) instance.
+export const zonedTimeToUtc = (
+  y: number, mo: number, d: number, h = 0, mi = 0, s = 0, tz = DEFAULT_TIMEZONE,
+): Date => {
+  const guess = Date.UTC(y, mo, d, h, mi, s);
+  const o1 = offsetMs(guess, tz);
+  const o2 = offsetMs(guess - o1, tz);
+  // offsets only disagree inside a spring-forward gap: use the pre-jump offset
+  return new Date(guess - (o1 === o2 ? o1 : o2));
+};
+
+// ---------- text parsing ----------
+const MONTHS = ['jan','feb','mar','apr','may','jun','jul','aug','sep','oct','nov','dec'];
+const monthIndex = (s: string) => MONTHS.findIndex((m) => s.toLowerCase().startsWith(m));
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const D_MON_Y = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}\\b,?(?:\\s+(\\d{4}))?`, 'i');
+const MON_D_Y = new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b,?(?:\\s+(\\d{4}))?`, 'i');
+
+type Clock = { h: number; mi: number; s: number };
+
+// "21:00", "9pm", "9.30pm", "10:15:30", "midnight", "noon"; null when no time is stated
+const TIME_RE = /\b(?:(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\s*(am|pm)?|(\d{1,2})\s*(am|pm)|(midnight|noon|midday))\b/i;
+const readClock = (s: string): Clock | null => {
+  const m = s.match(TIME_RE);
+  if (!m) return null;
+  if (m[7]) return m[7].toLowerCase() === 'midnight' ? { h: 0, mi: 0, s: 0 } : { h: 12, mi: 0, s: 0 };
+  let h = Number(m[1] ?? m[5]);
+  const mi = Number(m[2] ?? 0);
+  const sec = Number(m[3] ?? 0);
+  const ampm = (m[4] ?? m[6])?.toLowerCase();
+  if (ampm === 'pm' && h < 12) h += 12;
+  if (ampm === 'am' && h === 12) h = 0;
+  return h < 24 && mi < 60 && sec < 60 ? { h, mi, s: sec } : null;
+};
+
+// A close date with no time closes at the end of that day: closing a live
+// competition early is worse than showing a closed one a few hours longer.
+const END_OF_DAY: Clock = { h: 23, mi: 59, s: 59 };
+
+// "in 2 days 4 hours", "2d 04h 10m 33s", "3 hrs 20 mins"
+const UNIT_MS: [RegExp, number][] = [
+  [/(\d+)\s*(?:d|days?)\b/i, 86_400_000],
+  [/(\d+)\s*(?:h|hrs?|hours?)\b/i, 3_600_000],
+  [/(\d+)\s*(?:m|mins?|minutes?)\b/i, 60_000],
+  [/(\d+)\s*(?:s|secs?|seconds?)\b/i, 1_000],
+];
+const readCountdown = (s: string, now: Date): Date | null => {
+  const t = s.trim();
+  // "2 hours ago" is in the past, and a lone "3m" could as well be months or
+  // millions: single-letter units only count as part of "1d 02h 30m"
+  if (/\bago\b/i.test(t) || /^(?:in\s+)?\d+\s*[dhms]$/i.test(t)) return null;
+  if (!/^(?:in\s+)?\d+\s*(?:d|days?|h|hrs?|hours?|m|mins?|minutes?)\b/i.test(t)) return null;
+  let ms = 0;
+  for (const [re, unit] of UNIT_MS) {
+    const m = t.match(re);
+    if (m) ms += Number(m[1]) * unit;
+  }
+  return ms > 0 ? new Date(now.getTime() + ms) : null;
+};
+
+export type DateParseOpts = {
+  timezone?: string;
+  now?: Date;
+  defaultTime?: Clock; // when the text has a date but no time (default: 23:59:59)
+};
+
+export function tryParseDateUKLike(raw?: string | null, opts: DateParseOpts = {}): Date | null {
+  if (!raw) return null;
+  const s = raw.replace(/\s+/g, ' ').trim();
+  const tz = opts.timezone ?? DEFAULT_TIMEZONE;
+  const now = opts.now ?? new Date();
+  const at = (y: number, mo: number, d: number, clock: Clock | null) => {
+    const c = clock ?? opts.defaultTime ?? END_OF_DAY;
+    const out = zonedTimeToUtc(y, mo, d, c.h, c.mi, c.s, tz);
+    return isNaN(out.getTime()) ? null : out;
+  };
+
+  // Explicit instant: ISO with Z/offset, epoch, or an RFC date naming GMT/UTC
+  if (/^\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})$/i.test(s) || /\b(?:GMT|UTC)\b|[+-]\d{4}$/.test(s)) {
+    const d = new Date(s);
+    if (!isNaN(d.getTime())) return d;
+  }
+  if (/^\d{10}(?:\d{3})?$/.test(s)) return new Date(Number(s) * (s.length === 10 ? 1000 : 1));
+
+  // "in 2 days 4 hours"
+  const countdown = readCountdown(s, now);
+  if (countdown) return countdown;
+
+  // yyyy-mm-dd[ hh:mm[:ss]] (no offset → local)
+  const iso = s.match(/\b(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) {
+    const [, y, mo, d, h, mi, sec] = iso;
+    return at(Number(y), Number(mo) - 1, Number(d), h != null ? { h: Number(h), mi: Number(mi), s: Number(sec ?? 0) } : null);
+  }
+
+  // dd/mm/yyyy or dd-mm-yy, then an optional time
+  const dmy = s.match(/\b(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4}|\d{2})\b/);
+  if (dmy) {
+    const [, d, mo, yRaw] = dmy;
+    const y = Number(yRaw.length === 2 ? '20' + yRaw : yRaw);
+    return at(y, Number(mo) - 1, Number(d), readClock(s.slice(dmy.index! + dmy[0].length)));
+  }
+
+  // "11 Oct 2025 10pm", "Saturday 11th of October at 22:00", "October 11, 2025 9:30pm"
+  const dMonY = s.match(D_MON_Y);
+  const monDY = s.match(MON_D_Y);
+  const named =
+    dMonY ? { d: dMonY[1], mon: dMonY[2], y: dMonY[3], m: dMonY } :
+    monDY ? { d: monDY[2], mon: monDY[1], y: monDY[3], m: monDY } :
+    null;
+  if (named) {
+    const month = monthIndex(named.mon);
+    const clock = readClock(s.slice(named.m.index! + named.m[0].length)) ?? readClock(s.slice(0, named.m.index!));
+    if (named.y) return at(Number(named.y), month, Number(named.d), clock);
+
+    // no year: the next occurrence of that date
+    const year = zonedParts(now, tz).year;
+    const thisYear = at(year, month, Number(named.d), clock);
+    return thisYear && thisYear.getTime() < now.getTime() ? at(year + 1, month, Number(named.d), clock) : thisYear;
+  }
+
+  // "today at 9pm", "tonight 10pm", "tomorrow 21:00"
+  const rel = s.match(/\b(today|tonight|tomorrow)\b/i);
+  if (rel) {
+    const p = zonedParts(now, tz);
+    const day = new Date(Date.UTC(p.year, p.month, p.day + (rel[1].toLowerCase() === 'tomorrow' ? 1 : 0)));
+    return at(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), readClock(s.slice(rel.index! + rel[1].length)));
+  }
+
+  return null;
+}
+
+// ---------- page extraction ----------
+const LABEL_RE = /\b(?:Ends(?:\s*On)?|Ending|Closes(?:\s*On)?|Closing(?:\s*Date)?|End\s*Date|Draw\s*Date|Drawn\s+on|Draw\s+on)\b\s*[:\-]?\s*(.{0,60})/gi;
+
+export function extractEndsAt($: CheerioAPI, rules?: Rules, ctx?: ParseCtx): Sourced<string | null> {
+  const opts: DateParseOpts = { timezone: ctx?.timezone, now: ctx?.now };
+  const parse = (v: string) => tryParseDateUKLike(v, opts);
+
+  // (1) JSON-LD: availabilityEnds / priceValidUntil / validThrough / expires
+  const jsonLd = $('script[type="application/ld+json"]')
+    .map((_, el) => $(el).contents().text())
+    .get();
+  for (const raw of jsonLd) {
+    try {
+      const data = JSON.parse(raw);
+      const nodes = Array.isArray(data) ? data : [data];
+      for (const node of nodes) {
+        const graph = Array.isArray(node?.['@graph']) ? node['@graph'] : [node];
+        for (const g of graph) {
+          const offers = Array.isArray(g.offers) ? g.offers[0] : g.offers;
+          const cand = offers?.availabilityEnds || offers?.priceValidUntil || g.validThrough || g.expires;
+          const d = cand ? parse(String(cand)) : null;
+          if (d) return { value: toUtcIso(d), source: 'json_ld' };
+        }
+      }
+    } catch { /* ignore bad JSON-LD */ }
+  }
+
+  // (2) common meta tags
+  const metaKeys = [
+    'product:availability:ends','availabilityEnds','validThrough','priceValidUntil','og:availability:ends','twitter:availability:ends'
+  ];
+  for (const k of metaKeys) {
+    const v = $(`meta[property="${k}"], meta[name="${k}"]`).attr('content');
+    const d = v ? parse(v) : null;
+    if (d) return { value: toUtcIso(d), source: 'meta' };
+  }
+
+  // (3) common countdown data-attrs
+  const attrKeys = ['data-countdown','data-countdown-date','data-end-date','data-endtime','data-end','data-expiry','data-expire-date'];
+  for (const key of attrKeys) {
+    const v = $(`[${key}]`).first().attr(key);
+    const d = v ? parse(v) : null;
+    if (d) return { value: toUtcIso(d), source: 'data_attr' };
+  }
+
+  // (4) labelled body text: "Ends: …", "Closing Date …", "Draw Date …", "Drawn on the 25th of September"
+  // (DCG draws live at 22:00 UK time when no time is given)
+  const body = $('body').text().replace(/\s+/g, ' ');
+  for (const label of body.matchAll(LABEL_RE)) {
+    const drawn = /^Drawn\s+on/i.test(label[0]);
+    const d = tryParseDateUKLike(label[1], drawn ? { ...opts, defaultTime: { h: 22, mi: 0, s: 0 } } : opts);
+    if (d) return { value: toUtcIso(d), source: 'text' };
+  }
+
+  // (5) rules-based selectors (optional)
+  const sel = rules?.ends_at_selectors as string[] | undefined;
+  if (sel?.length) {
+    for (const s of sel) {
+      const t = $(s).first().text().trim();
+      const d = t ? parse(t) : null;
+      if (d) return { value: toUtcIso(d), source: 'rules_selector' };
+    }
+  }
+
+  return { value: null, source: 'none' };
+}
@@ -0,0 +1,166 @@
+// lib/scrape/discovery.ts
+// Full-catalogue link discovery: list page + next-page links, ?page=N templates,
+// "load more" JSON endpoints and sitemap.xml — all bounded by a page budget.
+import { load } from 'cheerio';
+import type { DiscoveryCfg, SiteCfg } from './types';
+import type { SiteAdapter } from './adapters';
+import { canonicalUrl } from './url';
+import { validateDiscovery } from './rules';
+import { StartDeadlineError } from './crawl';
+
+export const DEFAULT_MAX_PAGES = 10;
+
+export type DiscoveryResult = {
+  links: string[];
+  pages: number;                   // discovery requests made (list, pagination, sitemap)
+  sources: Record<string, number>; // new links contributed by each strategy
+};
+
+type FetchPage = (url: string) => Promise<string>;
+
+// Out of time isn't "past the last page": rethrow it so the caller retries
+// discovery whole instead of queueing a cut-short list
+const unlessOutOfTime = (e: unknown) => {
+  if (e instanceof StartDeadlineError) throw e;
+};
+
+const fillPage = (template: string, page: number, base: string): string | null => {
+  try { return new URL(template.replace(/\{page\}/g, String(page)), base).href; } catch { return null; }
+};
+
+// Any HTML fragment → adapter links; any url/link/permalink field → that URL
+const linksFromJson = (data: unknown, site: SiteCfg, adapter: SiteAdapter): string[] => {
+  const out: string[] = [];
+  const walk = (v: unknown, key?: string) => {
+    if (typeof v === 'string') {
+      if (/<a\s/i.test(v)) {
+        out.push(...adapter.discoverLinks(load(v), site));
+      } else if (key && /^(url|link|permalink|href)$/i.test(key)) {
+        try {
+          const url = new URL(v, site.list_url);
+          if (adapter.isCompetitionUrl(url)) out.push(url.href);
+        } catch { /* not a URL */ }
+      }
+    } else if (Array.isArray(v)) {
+      v.forEach((x) => walk(x));
+    } else if (v && typeof v === 'object') {
+      Object.entries(v).forEach(([k, x]) => walk(x, k));
+    }
+  };
+  walk(data);
+  return out;
+};
+
+const sitemapLocs = (xml: string): string[] =>
+  Array.from(xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/gi), (m) => m[1]);
+
+export async function discoverCatalogue(
+  site: SiteCfg,
+  adapter: SiteAdapter,
+  fetchPage: FetchPage,
+): Promise<DiscoveryResult> {
+  // invalid patterns are dropped (and reported on the run by the caller)
+  const cfg: DiscoveryCfg = validateDiscovery(site.discovery).discovery;
+  const maxPages = Math.max(1, cfg.max_pages ?? DEFAULT_MAX_PAGES);
+  const startPage = cfg.start_page ?? 2;
+
+  const found = new Set<string>();
+  const visited = new Set<string>();
+  const sources: Record<string, number> = {};
+  let pages = 0;
+
+  const budgetLeft = () => pages < maxPages;
+  const fetchCounted = async (url: string) => {
+    pages++;
+    visited.add(url);
+    return fetchPage(url);
+  };
+  // returns how many links were new
+  const add = (source: string, links: string[]) => {
+    const before = found.size;
+    links.forEach((l) => found.add(canonicalUrl(l)));
+    const added = found.size - before;
+    sources[source] = (sources[source] ?? 0) + added;
+    return added;
+  };
+  const pageLinks = (html: string, pageUrl: string) => {
+    const $ = load(html);
+    return { $, links: adapter.discoverLinks($, { ...site, list_url: pageUrl }) };
+  };
+
+  // (1) list page, following "next" links when configured
+  let pageUrl: string | null = site.list_url;
+  while (pageUrl && budgetLeft()) {
+    let html: string;
+    try {
+      html = await fetchCounted(pageUrl);
+    } catch (e) {
+      unlessOutOfTime(e);
+      if (pageUrl === site.list_url) throw e; // no list page → site-level error
+      break;
+    }
+    const { $, links } = pageLinks(html, pageUrl);
+    add('list', links);
+    if (!cfg.next_selector) break;
+
+    const href = $(cfg.next_selector).first().attr('href');
+    let next: string | null = null;
+    try { next = href ? new URL(href, pageUrl).href : null; } catch { /* bad href */ }
+    pageUrl = next && !visited.has(next) ? next : null;
+  }
+
+  // (2) numbered pages: stop at the first page that adds nothing (or errors past the end)
+  if (cfg.page_template) {
+    for (let n = startPage; budgetLeft(); n++) {
+      const url = fillPage(cfg.page_template, n, site.list_url);
+      if (!url || visited.has(url)) break;
+      let html: string;
+      try { html = await fetchCounted(url); } catch (e) { unlessOutOfTime(e); break; }
+      if (!add('pages', pageLinks(html, url).links)) break;
+    }
+  }
+
+  // (3) "load more" JSON endpoint
+  if (cfg.load_more_url) {
+    for (let n = startPage; budgetLeft(); n++) {
+      const url = fillPage(cfg.load_more_url, n, site.list_url);
+      if (!url) break;
+      let data: unknown;
+      try { data = JSON.parse(await fetchCounted(url)); } catch (e) { unlessOutOfTime(e); break; }
+      if (!add('load_more', linksFromJson(data, site, adapter))) break;
+    }
+  }
+
+  // (4) sitemap.xml (and sitemap indexes), filtered to competition URLs
+  if (cfg.sitemap_url) {
+    const include = cfg.sitemap_include ? new RegExp(cfg.sitemap_include, 'i') : null;
+    const host = new URL(site.list_url).hostname;
+    const queue = [new URL(cfg.sitemap_url, site.list_url).href];
+
+    while (queue.length && budgetLeft()) {
+      const url = queue.shift()!;
+      if (visited.has(url)) continue;
+      let xml: string;
+      try { xml = await fetchCounted(url); } catch (e) { unlessOutOfTime(e); continue; }
+
+      const locs = sitemapLocs(xml);
+      if (/<sitemapindex/i.test(xml)) {
+        // product/competition sitemaps first so a tight budget still finds them
+        locs.sort((a, b) => Number(/product|competition/i.test(b)) - Number(/product|competition/i.test(a)));
+        queue.push(...locs);
+        continue;
+      }
+      add('sitemap', locs.filter((loc) => {
+        try {
+          const u = new URL(loc);
+          if (u.hostname !== host) return false;
+          return include ? include.test(u.href) : adapter.isCompetitionUrl(u);
+        } catch {
+          return false;
+        }
+      }));
+    }
+  }
+
+  return { links: Array.from(found), pages, sources };
+}
@@ -0,0 +1,98 @@
+// lib/scrape/entry.ts
+// Entry requirements UK competitions publish: the free (postal) entry route —
+// its address or instructions page — and the skill question with its answers.
+import type { CheerioAPI } from 'cheerio';
+import type { FreeEntry, Rules, SkillQuestion } from './types';
+
+type Selection = ReturnType<CheerioAPI>;
+
+const clean = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+// ---------- free entry ----------
+const FREE_ROUTE = /\b(?:free\s+(?:postal\s+)?(?:entry|route)|postal\s+entry|enter\s+(?:for\s+free\s+)?by\s+post|free\s+entry\s+route|no\s+purchase\s+necessary)\b/i;
+const POSTCODE = '[A-Z]{1,2}\\d[A-Z\\d]?\\s*\\d[A-Z]{2}';
+// "send … to: PrizeCo, 1 High Street, Leeds, LS1 1AA"
+const ADDRESS_RE = new RegExp(`\\b(?:to|address)\\s*:?\\s*((?:(?!\\bto\\b)[^.!?;]){5,200}?\\b${POSTCODE}\\b)`, 'i');
+const LINK_TEXT = /\b(?:free\s*(?:postal\s*)?entry|postal\s*entry|free\s*route|enter\s+by\s+post)\b/i;
+const LINK_HREF = /(?:free|postal)[-_]?(?:postal[-_]?)?(?:entry|route)/i;
+
+const DEFAULT_FREE_ENTRY = [
+  '[class*="free-entry"]', '[class*="postal-entry"]', '[id*="free-entry"]', '[id*="postal-entry"]',
+];
+
+const resolve = (href: string | undefined, base: string) => {
+  if (!href || href.startsWith('#') || /^(?:javascript|mailto|tel):/i.test(href)) return null;
+  try { return new URL(href, base).href; } catch { return null; }
+};
+
+export const extractFreeEntry = ($: CheerioAPI, pageUrl: string, rules?: Rules): FreeEntry => {
+  const selected = clean($([...(rules?.free_entry_selectors ?? []), ...DEFAULT_FREE_ENTRY].join(',')).text());
+  const body = clean($('body').text());
+
+  // the address follows the postal-entry wording, not whatever the footer says
+  const mention = body.search(FREE_ROUTE);
+  const near = selected || (mention >= 0 ? body.slice(mention, mention + 600) : '');
+  const address = near.match(ADDRESS_RE)?.[1]?.trim() ?? null;
+
+  let instructions_url: string | null = null;
+  $('a[href]').each((_, a) => {
+    const $a = $(a);
+    if (!LINK_TEXT.test($a.text()) && !LINK_HREF.test($a.attr('href') ?? '')) return;
+    instructions_url = resolve($a.attr('href'), pageUrl);
+    if (instructions_url) return false;
+  });
+
+  return {
+    available: !!(selected || mention >= 0 || address || instructions_url),
+    address,
+    instructions_url,
+  };
+};
+
+// ---------- skill question ----------
+// not a bare [class*="question"]: FAQ blocks are full of headings ending in "?"
+const DEFAULT_QUESTION = [
+  '[class*="skill-question"]', '[class*="lottery-question"]', '[class*="competition-question"]',
+  '[class*="entry-question"]', 'form.cart [class*="question"]', 'form.cart fieldset',
+];
+const QUESTION_TEXT = /\b(?:skill\s+)?question\s*:\s*([^?]{5,200}\?)/i;
+
+const optionLabel = ($: CheerioAPI, $input: Selection): string => {
+  const id = $input.attr('id');
+  const byFor = id ? $(`label[for="${id}"]`).first().text() : '';
+  return clean(byFor || $input.closest('label').text() || $input.parent().text() || String($input.attr('value') ?? ''));
+};
+
+const readOptions = ($: CheerioAPI, $box: Selection): string[] => {
+  let options = $box.find('input[type="radio"]').toArray().map((el) => optionLabel($, $(el)));
+  if (!options.length) {
+    options = $box.find('option').toArray()
+      .filter((o) => ($(o).attr('value') ?? $(o).text()).trim() !== '')
+      .map((o) => clean($(o).text()));
+  }
+  if (!options.length) {
+    options = $box.find('li, button[class*="answer"]').toArray().map((li) => clean($(li).text()));
+  }
+  return Array.from(new Set(options.filter((o) => o && o.length <= 120))).slice(0, 10);
+};
+
+// the question is the first heading / label / paragraph ending in "?"
+const readQuestion = ($: CheerioAPI, $box: Selection): string | null => {
+  const el = $box.find('h1,h2,h3,h4,h5,h6,legend,label,p,strong,span').addBack().toArray()
+    .map((e) => clean($(e).text()))
+    .find((t) => /\?$/.test(t) && t.length <= 250);
+  if (el) return el.replace(/^(?:skill\s+)?question\s*:?\s*/i, '');
+  return clean($box.text()).match(QUESTION_TEXT)?.[1]?.trim() ?? null;
+};
+
+export const extractSkillQuestion = ($: CheerioAPI, rules?: Rules): SkillQuestion | null => {
+  const boxes = $([...(rules?.skill_question_selectors ?? []), ...DEFAULT_QUESTION].join(','));
+  for (const el of boxes.toArray()) {
+    const $box = $(el);
+    const question = readQuestion($, $box);
+    if (!question) continue;
+    return { question, options: readOptions($, $box) };
+  }
+  const text = clean($('body').text()).match(QUESTION_TEXT)?.[1]?.trim();
+  return text ? { question: text, options: [] } : null;
+};
@@ -0,0 +1,116 @@
+// lib/scrape/fetch.ts
+// HTTP for the scraper: retries transient failures with jittered exponential backoff.
+import { sleep } from './utils';
+
+// Identifies us to site owners (and to robots.txt groups). SCRAPER_CONTACT is a
+// URL or email they can reach us on; sites.user_agent overrides per site.
+export const BOT_NAME = 'PrizeWolfBot';
+const CONTACT = process.env.SCRAPER_CONTACT;
+export const DEFAULT_USER_AGENT = `${BOT_NAME}/1.0${CONTACT ? ` (+${CONTACT})` : ''}`;
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 15_000;
+
+export class HttpError extends Error {
+  constructor(public status: number, public url: string) {
+    super(`HTTP ${status} for ${url}`);
+    this.name = 'HttpError';
+  }
+}
+
+// 404 means the competition page is gone; other 4xx (403, 410 bot walls, …) are
+// "couldn't fetch", not "couldn't parse" — callers skip them rather than fail.
+export const isNotFound = (e: unknown) => e instanceof HttpError && e.status === 404;
+export const isClientError = (e: unknown) =>
+  e instanceof HttpError && e.status >= 400 && e.status < 500 && e.status !== 404 && e.status !== 429;
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// fetch() rejects with TypeError on resets/DNS/TLS; the cause carries the errno
+const isNetworkError = (e: unknown): boolean => {
+  if (!(e instanceof Error)) return false;
+  const code = (e.cause as { code?: string } | undefined)?.code ?? '';
+  return e.name === 'TypeError' || /ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|UND_ERR/.test(code);
+};
+
+// Retry-After is either delta-seconds or an HTTP date
+const parseRetryAfter = (v: string | null): number | null => {
+  if (!v) return null;
+  const secs = Number(v);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(v);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+};
+
+// "full jitter": random delay in [0, base * 2^attempt], capped
+const backoff = (attempt: number) =>
+  Math.round(Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt));
+
+export type FetchOpts = {
+  userAgent?: string | null;
+  onStatus?: (status: number | 'network') => void; // final outcome of each request (run metrics)
+  deadline?: number; // epoch ms: a retry that would wait past this isn't made
+};
+
+// GET with retries; resolves with any 2xx (or 304 when asked for) response
+const request = async (url: string, extraHeaders: Record<string, string> = {}, opts: FetchOpts = {}): Promise<Response> => {
+  const outOfTime = (wait: number) => opts.deadline != null && Date.now() + wait > opts.deadline;
+  for (let attempt = 0; ; attempt++) {
+    const last = attempt >= MAX_ATTEMPTS - 1;
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        headers: { 'User-Agent': opts.userAgent || DEFAULT_USER_AGENT, 'Accept-Language': 'en-GB,en;q=0.9', ...extraHeaders },
+        cache: 'no-store',
+      });
+    } catch (e) {
+      const wait = backoff(attempt);
+      if (last || !isNetworkError(e) || outOfTime(wait)) {
+        opts.onStatus?.('network');
+        throw e;
+      }
+      console.warn(`[scrape] network error for ${url}; retry ${attempt + 1} in ${wait}ms`);
+      await sleep(wait);
+      continue;
+    }
+
+    const wait = Math.min(MAX_DELAY_MS, parseRetryAfter(res.headers.get('retry-after')) ?? backoff(attempt));
+    const final = res.ok || res.status === 304 || last || !isRetryableStatus(res.status) || outOfTime(wait);
+    if (final) opts.onStatus?.(res.status);
+    if (res.ok || res.status === 304) return res;
+    if (final) throw new HttpError(res.status, url);
+
+    console.warn(`[scrape] HTTP ${res.status} for ${url}; retry ${attempt + 1} in ${wait}ms`);
+    await sleep(wait);
+  }
+};
+
+export const fetchHtml = async (url: string, opts?: FetchOpts): Promise<string> => (await request(url, {}, opts)).text();
+
+// ETag / Last-Modified as returned by the server, echoed back on the next run
+export type Validators = { etag?: string | null; last_modified?: string | null };
+
+export type ConditionalResult =
+  | { status: 'not_modified' }
+  | { status: 'ok'; html: string; etag: string | null; last_modified: string | null; final_url: string };
+
+export const fetchConditional = async (
+  url: string,
+  prev?: Validators | null,
+  opts?: FetchOpts,
+): Promise<ConditionalResult> => {
+  const headers: Record<string, string> = {};
+  if (prev?.etag) headers['If-None-Match'] = prev.etag;
+  if (prev?.last_modified) headers['If-Modified-Since'] = prev.last_modified;
+
+  const res = await request(url, headers, opts);
+  if (res.status === 304) return { status: 'not_modified' };
+  return {
+    status: 'ok',
+    html: await res.text(),
+    etag: res.headers.get('etag'),
+    last_modified: res.headers.get('last-modified'),
+    final_url: res.url || url,
+  };
+};
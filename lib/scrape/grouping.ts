@@ -0,0 +1,66 @@
+// lib/scrape/grouping.ts
+// The same prize listed on several sites: prizeKey() reduces a prize title to a
+// comparison key (stored as competitions.prize_key) and groupByPrize() clusters
+// listings by it.
+import { BASE_CURRENCY, detectCurrency } from './currency';
+
+// Marketing words that differ between sites for the same prize
+const STOPWORDS = new Set([
+  'win', 'a', 'an', 'the', 'brand', 'new', 'with', 'and', 'plus', 'or', 'for', 'of', 'in',
+  'comp', 'giveaway', 'prize',
+]);
+
+// "+ £2,000 Cash", "or £35k Cash", "+ 60 Instant Wins", "(£1,000 cash alternative)"
+const EXTRAS = [
+  /\s*[([]?\s*(?:\+|&|\bor\b|\bplus\b|\bwith\b)\s*[£€$]\s*[\d,.]+\s*(?:k|m)?\b[^)\]]*?(?:cash|credit)\b.*$/i,
+  /\s*[([]?\s*(?:\+|&|\bplus\b|\bwith\b)\s*\d[\d,]*\s+instant\s+wins?\b.*$/i,
+  /\s*[([]?\s*[£€$]\s*[\d,.]+\s*(?:k|m)?\s*cash\s+alternative\b.*$/i,
+];
+
+// The prize itself, without cash alternatives / bonus instant wins
+export const stripPrizeExtras = (prize: string) => EXTRAS.reduce((s, re) => s.replace(re, ''), prize);
+
+// "£25,000 Tax-Free Cash" → every site offering that much cash is one prize
+const CASH_PRIZE = /^\s*(?:win\s+)?([£€$])\s*(\d[\d,]*(?:\.\d+)?)\s*(k|m)?\s*(?:tax[-\s]*free\s+)?(?:cash|site\s+credit)\b/i;
+
+// Reference / model numbers identify a product on their own ("126610LN", "SM-S928B").
+// Capacities and sizes ("256GB", "65inch") don't.
+const isReference = (t: string) =>
+  t.length >= 5 && /\d/.test(t) && /[a-z]/.test(t) && !/^\d+(?:gb|tb|mb|mm|cm|inch|in|cc|bhp|hp|ps|kw|ml|kg|w|k)$/.test(t);
+
+export const prizeKey = (prize?: string | null): string | null => {
+  if (!prize) return null;
+  const title = prize.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+  const cash = title.match(CASH_PRIZE);
+  if (cash) {
+    const amount = Number(cash[2].replace(/,/g, '')) * (cash[3]?.toLowerCase() === 'k' ? 1e3 : cash[3]?.toLowerCase() === 'm' ? 1e6 : 1);
+    return `cash:${detectCurrency(cash[1]) ?? BASE_CURRENCY}:${amount}`;
+  }
+
+  const core = stripPrizeExtras(title).toLowerCase();
+  const tokens = core
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t && !STOPWORDS.has(t));
+  if (!tokens.length) return null;
+
+  // brand + reference survives reworded titles ("Rolex Submariner Date 126610LN")
+  const ref = tokens.find(isReference);
+  if (ref) return tokens[0] === ref ? ref : `${tokens[0]}:${ref}`;
+  return tokens.join('-');
+};
+
+export type PrizeGroup<T> = { key: string; listings: T[] };
+
+// Keeps the incoming order: a group sits where its first listing was, and
+// rows without a key are groups of one.
+export const groupByPrize = <T extends { id: string; prize_key?: string | null }>(rows: T[]): PrizeGroup<T>[] => {
+  const groups = new Map<string, PrizeGroup<T>>();
+  for (const r of rows) {
+    const key = r.prize_key || `id:${r.id}`;
+    const g = groups.get(key);
+    if (g) g.listings.push(r);
+    else groups.set(key, { key, listings: [r] });
+  }
+  return Array.from(groups.values());
+};
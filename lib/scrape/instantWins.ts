@@ -0,0 +1,212 @@
+// lib/scrape/instantWins.ts
+// Instant-win prize tables: per-ticket tables ("Ticket #123 | £50 Cash | Claimed")
+// and grouped lists ("20 x £50 Cash — 12 left"), merged per prize.
+import type { CheerioAPI } from 'cheerio';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ApiRow, InstantWin, Rules } from './types';
+import { toFloat, toInt } from './utils';
+
+type Selection = ReturnType<CheerioAPI>;
+
+const WRITE_CHUNK = 200;
+
+// ---------- text helpers ----------
+const UNCLAIMED = /\b(?:un-?claimed|available|not\s+(?:yet\s+)?(?:claimed|won)|still\s+to\s+be\s+won|up\s+for\s+grabs)\b/i;
+const CLAIMED = /\b(?:claimed|won|winner|gone)\b/i;
+
+const isClaimedText = (s: string) => !UNCLAIMED.test(s) && CLAIMED.test(s);
+
+const moneyIn = (s: string): number | null => {
+  const m = s.match(/[£€$]\s*([\d,]+(?:\.\d{1,2})?)\s*(k\b)?/i);
+  if (!m) return null;
+  const n = toFloat(m[1]);
+  return n == null ? null : m[2] ? n * 1000 : n;
+};
+
+// "20 x £50", "£50 x 20", "x20"
+const quantityIn = (s: string): number | null =>
+  toInt(s.match(/^\s*(\d[\d,]*)\s*[x×]\s+/i)?.[1] ?? s.match(/[x×]\s*(\d[\d,]*)\b/i)?.[1]);
+
+const remainingIn = (s: string): number | null =>
+  toInt(s.match(/\b(\d[\d,]*)\s*(?:remaining|left|available|to\s+be\s+won)\b/i)?.[1]);
+
+const cleanPrizeName = (s: string) =>
+  s
+    .replace(/\bticket\s*(?:no\.?|number|#)?\s*:?\s*#?\d+\b/gi, '')
+    .replace(/\(?\b\d[\d,]*\s*(?:remaining|left|available|claimed|won)\b\)?/gi, '')
+    .replace(/^\s*\d[\d,]*\s*[x×]\s+/i, '')
+    .replace(/\s*[x×]\s*\d[\d,]*\b/i, '')
+    .replace(/\b(?:un-?claimed|claimed|available|won)\b/gi, '')
+    .replace(/[\s\-–—|:]+$/g, '')
+    .replace(/^[\s\-–—|:]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// ---------- containers ----------
+const DEFAULT_CONTAINERS = [
+  '[class*="instant-win"]', '[class*="instant_win"]', '[class*="instantwin"]',
+  '[id*="instant-win"]', '[id*="instant_win"]', '[id*="instantwin"]',
+];
+
+// tables captioned / headed "Instant wins" count even without a telling class
+const headedTables = ($: CheerioAPI) =>
+  $('table').filter((_, t) => {
+    const $t = $(t);
+    const caption = $t.find('caption').text();
+    const heading = $t.prevAll('h1,h2,h3,h4,h5').first().text();
+    return /instant/i.test(caption) || /instant/i.test(heading);
+  });
+
+const findContainers = ($: CheerioAPI, rules?: Rules): Selection => {
+  const found = rules?.instant_win_selectors?.length
+    ? $(rules.instant_win_selectors.join(','))
+    : $(DEFAULT_CONTAINERS.join(',')).add(headedTables($));
+  // outermost only, so nested matches aren't read twice
+  return found.filter((_, el) => !$(el).parents().toArray().some((p) => found.is(p)));
+};
+
+// ---------- tables ----------
+type Column = 'prize' | 'value' | 'quantity' | 'remaining' | 'status' | 'winner' | 'ticket';
+
+const COLUMN_PATTERNS: [Column, RegExp][] = [
+  ['ticket', /ticket/i],
+  ['winner', /winner|won by/i],
+  ['status', /status|claimed/i],
+  ['remaining', /remaining|left|unclaimed/i],
+  ['quantity', /qty|quantity|how many|no\. of|count/i],
+  ['value', /value|worth/i],
+  ['prize', /prize|reward|item|name/i],
+];
+
+const readTable = ($: CheerioAPI, $table: Selection): InstantWin[] => {
+  const rows = $table.find('tr').toArray();
+  const headerRow = rows.find((r) => $(r).find('th').length > 0);
+  const cols = new Map<Column, number>();
+  if (headerRow) {
+    $(headerRow).find('th,td').each((i, th) => {
+      const label = $(th).text();
+      const hit = COLUMN_PATTERNS.find(([col, re]) => !cols.has(col) && re.test(label));
+      if (hit) cols.set(hit[0], i);
+    });
+  }
+  if (!cols.has('prize')) cols.set('prize', [0, 1, 2].find((i) => ![...cols.values()].includes(i)) ?? 0);
+
+  const out: InstantWin[] = [];
+  for (const r of rows) {
+    if (r === headerRow) continue;
+    const cells = $(r).find('td').toArray().map((td) => $(td).text().replace(/\s+/g, ' ').trim());
+    if (!cells.length) continue;
+    const cell = (c: Column) => (cols.has(c) ? cells[cols.get(c)!] ?? '' : '');
+
+    const rawPrize = cell('prize');
+    const prize = cleanPrizeName(rawPrize);
+    if (!prize) continue;
+
+    const quantity = toInt(cell('quantity')) ?? quantityIn(rawPrize) ?? 1;
+    const remaining = cols.has('remaining') ? toInt(cell('remaining')) : null;
+    const rowText = cells.join(' ') + ' ' + ($(r).attr('class') ?? '');
+    const winner = cell('winner');
+
+    let claimed = 0;
+    if (remaining != null) claimed = Math.max(0, quantity - remaining);
+    else if (cols.has('status')) claimed = isClaimedText(cell('status')) ? quantity : 0;
+    else if (winner && !/^(?:-|–|tbc|tba|n\/a|available|none)?$/i.test(winner)) claimed = quantity;
+    else if (isClaimedText(rowText)) claimed = quantity;
+
+    out.push({ prize, value: toFloat(cell('value').replace(/[^\d.,]/g, '')) || moneyIn(rawPrize), quantity, claimed });
+  }
+  return out;
+};
+
+// ---------- lists / cards ----------
+const readList = ($: CheerioAPI, $box: Selection): InstantWin[] => {
+  let items = $box.find('li');
+  if (!items.length) items = $box.children();
+  const out: InstantWin[] = [];
+  items.each((_, el) => {
+    const $el = $(el);
+    const text = $el.text().replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    const named = $el.find('[class*="name"], [class*="title"], h3, h4, h5, strong').first().text().trim();
+    const prize = cleanPrizeName(named || text);
+    if (!prize) return;
+
+    const quantity = quantityIn(text) ?? 1;
+    const remaining = remainingIn(text);
+    const classes = `${$el.attr('class') ?? ''} ${$el.find('[class]').map((_, c) => $(c).attr('class')).get().join(' ')}`;
+    const claimed =
+      remaining != null ? Math.max(0, quantity - remaining)
+      : isClaimedText(text) || /\b(?:is-)?(?:claimed|won)\b/i.test(classes.replace(/\bun-?claimed\b/gi, '')) ? quantity
+      : 0;
+
+    out.push({ prize, value: moneyIn(named || text), quantity, claimed });
+  });
+  return out;
+};
+
+// ---------- public ----------
+// Same prize + value on several rows (one per ticket number) → one entry
+const mergeByPrize = (wins: InstantWin[]): InstantWin[] => {
+  const byKey = new Map<string, InstantWin>();
+  for (const w of wins) {
+    const key = `${w.prize.toLowerCase()}|${w.value ?? ''}`;
+    const prev = byKey.get(key);
+    if (prev) {
+      prev.quantity += w.quantity;
+      prev.claimed += w.claimed;
+    } else {
+      byKey.set(key, { ...w });
+    }
+  }
+  return Array.from(byKey.values());
+};
+
+export const extractInstantWins = ($: CheerioAPI, rules?: Rules): InstantWin[] => {
+  const wins: InstantWin[] = [];
+  findContainers($, rules).each((_, el) => {
+    const $el = $(el);
+    const $table = $el.is('table') ? $el : $el.find('table').first();
+    wins.push(...($table.length ? readTable($, $table) : readList($, $el)));
+  });
+  return mergeByPrize(wins);
+};
+
+export const instantWinCounts = (wins?: InstantWin[] | null) => {
+  if (!wins?.length) return { total: null, remaining: null };
+  const total = wins.reduce((n, w) => n + w.quantity, 0);
+  const claimed = wins.reduce((n, w) => n + Math.min(w.claimed, w.quantity), 0);
+  return { total, remaining: total - claimed };
+};
+
+// ---------- storage ----------
+// competition_instant_wins is replaced wholesale for every upserted competition,
+// so prizes removed from the page disappear too (see 013_instant_wins.sql).
+export async function writeInstantWins(
+  supabase: SupabaseClient,
+  rows: ApiRow[],
+  upserted: { id: string; url: string }[],
+): Promise<number> {
+  const winsByUrl = new Map(rows.map((r) => [r.url, r.instant_wins ?? []]));
+  const ids = upserted.map((r) => r.id);
+  for (let i = 0; i < ids.length; i += WRITE_CHUNK) {
+    const { error } = await supabase
+      .from('competition_instant_wins')
+      .delete()
+      .in('competition_id', ids.slice(i, i + WRITE_CHUNK));
+    if (error) {
+      console.error('[scrape] instant wins delete error:', error.message);
+      return 0;
+    }
+  }
+
+  const inserts = upserted.flatMap(({ id, url }) =>
+    (winsByUrl.get(url) ?? []).map((w) => ({ competition_id: id, ...w }))
+  );
+  if (!inserts.length) return 0;
+  const { error } = await supabase.from('competition_instant_wins').insert(inserts);
+  if (error) {
+    console.error('[scrape] instant wins insert error:', error.message);
+    return 0;
+  }
+  return inserts.length;
+}
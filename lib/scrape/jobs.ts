@@ -0,0 +1,395 @@
+// lib/scrape/jobs.ts
+// Crawl job queue (see 023_crawl_jobs.sql). The cron enqueues a full job per
+// site that is due and refresh jobs for fast-moving competitions
+// (lib/scrape/schedule.ts), then works through leased task batches until its
+// time budget runs out; the next invocation picks up where it stopped. A job's
+// share of a batch is sized from its host's spacing and the time left, and
+// pages that still can't start in time are handed back, so a slow host never
+// runs past the deadline. Each batch is committed before its tasks are marked
+// done, so a worker that dies mid-batch only costs a re-crawl of that batch
+// once the lease expires. Targeted scrapes
+// (lib/scrape/requests.ts) queue jobs here too, alongside the scheduled ones.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SiteCfg } from './types';
+import { createHostLimiter, mapPool, SITE_CONCURRENCY, StartDeadlineError, type HostLimiter } from './crawl';
+import { createCrawlPolicy, type CrawlPolicy } from './robots';
+import { mergeRunMetrics, type RunMetrics } from './metrics';
+import { validateDiscovery, type RulesValidation } from './rules';
+import { ENDING_WITHIN_HOURS, FAST_REFRESH_LIMIT, FAST_REFRESH_MIN, FAST_SELL_PCT_PER_DAY, isSiteDue } from './schedule';
+import {
+  createSiteCrawl, finishRun, hostSpacingMs, loadSitesById, startRun, type DetailOutcome,
+} from './siteCrawl';
+
+export const BATCH_SIZE = 20;       // tasks leased per claim, across all jobs
+export const LEASE_SECONDS = 300;   // comfortably longer than one batch takes
+export const MAX_ATTEMPTS = 3;
+const BATCH_HEADROOM_MS = 15_000;   // don't start a batch this close to the deadline
+const COMMIT_HEADROOM_MS = 10_000;  // no detail fetch starts this close to it
+
+type Job = {
+  id: number;
+  site_id: string;
+  run_id: number | null;
+  force: boolean;
+  max_items: number | null; // requested jobs: detail pages + feed rows crawled at most
+  dry_run: boolean;         // requested jobs: parse and report, write nothing
+};
+const JOB_COLUMNS = 'id,site_id,run_id,force,max_items,dry_run';
+type Task = { id: number; job_id: number; kind: 'discover' | 'detail'; url: string | null; attempts: number };
+
+export type WorkerReport = { tasks: number; jobs_finished: number };
+
+// ---------- enqueue ----------
+type JobState = { open: boolean; lastFullAt: string | null };
+
+// per site: is a job running, and when was the last full crawl queued
+async function loadJobState(supabase: SupabaseClient, siteIds: string[]): Promise<Map<string, JobState>> {
+  const out = new Map<string, JobState>();
+  if (!siteIds.length) return out;
+  const { data, error } = await supabase
+    .from('crawl_jobs')
+    .select('site_id,kind,status,created_at')
+    .in('site_id', siteIds)
+    .or('status.eq.running,kind.eq.full')
+    .is('request_id', null) // requested crawls don't move the schedule
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  for (const j of data ?? []) {
+    const st = out.get(j.site_id) ?? { open: false, lastFullAt: null };
+    if (j.status === 'running') st.open = true;
+    if (j.kind === 'full' && !st.lastFullAt) st.lastFullAt = j.created_at;
+    out.set(j.site_id, st);
+  }
+  return out;
+}
+
+// Set on jobs queued by a targeted scrape (lib/scrape/requests.ts)
+export type JobRequest = { request_id: string; max_items: number | null; dry_run: boolean; force: boolean };
+
+export type EnqueueResult = { queued: true } | { queued: false; reason: string };
+
+export async function createJob(
+  supabase: SupabaseClient,
+  site: SiteCfg,
+  rulesMap: Map<string, RulesValidation>,
+  kind: 'full' | 'refresh',
+  urls: string[] = [],
+  request?: JobRequest,
+): Promise<EnqueueResult> {
+  const { data: job, error } = await supabase
+    .from('crawl_jobs')
+    .insert({
+      site_id: site.id,
+      kind,
+      ...request,
+      ...(kind === 'refresh' ? { links_found: urls.length, links_processed: urls.length, pages_crawled: 0 } : {}),
+    })
+    .select('id')
+    .single();
+  if (error || !job) {
+    console.warn(`[scrape] could not enqueue ${site.name}:`, error?.message);
+    // 23505: another worker enqueued it first (one open job per site)
+    const reason = error?.code === '23505' ? 'a crawl of this site is already running' : (error?.message ?? 'job insert failed');
+    return { queued: false, reason };
+  }
+
+  // only once the job exists, so a lost race leaves no run stuck at 'started';
+  // a dry run leaves no scrape_runs row behind
+  const runId = request?.dry_run ? undefined : await startRun(supabase, site.id, [
+    ...(rulesMap.get(site.adapter_key)?.issues ?? []),
+    ...validateDiscovery(site.discovery).issues,
+  ]);
+  if (runId) await supabase.from('crawl_jobs').update({ run_id: runId }).eq('id', job.id);
+
+  const tasks = kind === 'full'
+    ? [{ job_id: job.id, kind: 'discover' }]
+    : urls.map((url) => ({ job_id: job.id, kind: 'detail', url }));
+  const { error: taskError } = await supabase.from('crawl_tasks').insert(tasks);
+  if (taskError) {
+    // a job without tasks would be finished as 'done' with nothing crawled
+    const msg = `queueing tasks: ${taskError.message}`;
+    console.error(`[scrape] could not enqueue ${site.name}:`, msg);
+    await supabase
+      .from('crawl_jobs')
+      .update({ status: 'error', finished_at: new Date().toISOString(), error: msg })
+      .eq('id', job.id);
+    await finishRun(supabase, runId, site.id, 'error', { error: msg });
+    return { queued: false, reason: msg };
+  }
+  return { queued: true };
+}
+
+// A full crawl for every site whose refresh interval has passed
+export async function enqueueDueJobs(
+  supabase: SupabaseClient,
+  sites: SiteCfg[],
+  rulesMap: Map<string, RulesValidation>,
+  now = Date.now(),
+): Promise<number> {
+  const state = await loadJobState(supabase, sites.map((s) => s.id));
+  let enqueued = 0;
+  for (const site of sites) {
+    const st = state.get(site.id);
+    if (st?.open || !isSiteDue(site, st?.lastFullAt ?? null, now)) continue;
+    if ((await createJob(supabase, site, rulesMap, 'full')).queued) enqueued++;
+  }
+  return enqueued;
+}
+
+// Detail pages only, for competitions selling fast or closing soon on sites
+// that aren't being crawled right now
+export async function enqueueRefreshJobs(
+  supabase: SupabaseClient,
+  sites: SiteCfg[],
+  rulesMap: Map<string, RulesValidation>,
+): Promise<number> {
+  const { data, error } = await supabase.rpc('competitions_due_refresh', {
+    p_stale_minutes: FAST_REFRESH_MIN,
+    p_sold_pct_per_day: FAST_SELL_PCT_PER_DAY,
+    p_ending_within_hours: ENDING_WITHIN_HOURS,
+    p_limit: FAST_REFRESH_LIMIT,
+  });
+  if (error) throw error;
+
+  const byName = new Map(sites.map((s) => [s.name, s]));
+  const urlsBySite = new Map<SiteCfg, string[]>();
+  for (const row of (data ?? []) as { url: string; site_name: string }[]) {
+    const site = byName.get(row.site_name);
+    if (site) urlsBySite.set(site, [...(urlsBySite.get(site) ?? []), row.url]);
+  }
+  if (!urlsBySite.size) return 0;
+
+  const state = await loadJobState(supabase, [...urlsBySite.keys()].map((s) => s.id));
+  let enqueued = 0;
+  for (const [site, urls] of urlsBySite) {
+    if (state.get(site.id)?.open) continue;
+    if ((await createJob(supabase, site, rulesMap, 'refresh', urls)).queued) enqueued++;
+  }
+  return enqueued;
+}
+
+// ---------- finish ----------
+// Finishes the job once nothing is pending or leased; only one worker wins the update
+async function maybeFinishJob(supabase: SupabaseClient, job: Job): Promise<boolean> {
+  const { count } = await supabase
+    .from('crawl_tasks')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', job.id)
+    .in('status', ['pending', 'leased']);
+  if (count !== 0) return false;
+
+  const { data: discover } = await supabase
+    .from('crawl_tasks')
+    .select('status,last_error')
+    .eq('job_id', job.id)
+    .eq('kind', 'discover')
+    .maybeSingle();
+  // refresh jobs have no discovery step
+  const failed = !!discover && discover.status !== 'done';
+  const error = failed ? (discover?.last_error ?? 'discovery failed') : null;
+
+  const { data: won } = await supabase
+    .from('crawl_jobs')
+    .update({ status: failed ? 'error' : 'done', finished_at: new Date().toISOString(), error })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .select('links_found,links_processed,pages_crawled');
+  if (!won?.length) return false;
+
+  if (job.dry_run) return true;
+  const { data: batches } = await supabase.from('crawl_batches').select('metrics').eq('job_id', job.id);
+  const metrics = mergeRunMetrics((batches ?? []).map((b: { metrics: RunMetrics }) => b.metrics));
+  await finishRun(supabase, job.run_id ?? undefined, job.site_id, failed ? 'error' : 'ok', {
+    ...won[0],
+    ...metrics,
+    ...(error ? { error } : {}),
+  });
+  return true;
+}
+
+// jobs whose last tasks ran out of attempts inside claim_crawl_tasks never see a batch end
+async function finishIdleJobs(supabase: SupabaseClient): Promise<number> {
+  const { data } = await supabase.from('crawl_jobs').select(JOB_COLUMNS).eq('status', 'running');
+  let finished = 0;
+  for (const job of (data ?? []) as Job[]) if (await maybeFinishJob(supabase, job)) finished++;
+  return finished;
+}
+
+// ---------- tasks ----------
+const setTasks = async (supabase: SupabaseClient, ids: number[], patch: Record<string, unknown>) => {
+  if (!ids.length) return;
+  const { error } = await supabase
+    .from('crawl_tasks')
+    .update({ ...patch, lease_until: null, updated_at: new Date().toISOString() })
+    .in('id', ids);
+  if (error) console.error('[scrape] crawl_tasks update error:', error.message);
+};
+
+// a task that failed on its last attempt is given up; otherwise it goes back in the queue
+const retryOrFail = (supabase: SupabaseClient, tasks: Task[], lastError: string) =>
+  Promise.all([
+    setTasks(supabase, tasks.filter((t) => t.attempts < MAX_ATTEMPTS).map((t) => t.id), { status: 'pending', last_error: lastError }),
+    setTasks(supabase, tasks.filter((t) => t.attempts >= MAX_ATTEMPTS).map((t) => t.id), { status: 'failed', last_error: lastError }),
+  ]);
+
+// back in the queue without spending an attempt (030_release_crawl_tasks.sql)
+const releaseTasks = async (supabase: SupabaseClient, tasks: Task[]) => {
+  if (!tasks.length) return;
+  const { error } = await supabase.rpc('release_crawl_tasks', { p_ids: tasks.map((t) => t.id) });
+  if (error) console.error('[scrape] release_crawl_tasks error:', error.message);
+};
+
+type BatchEnv = {
+  supabase: SupabaseClient;
+  rulesMap: Map<string, RulesValidation>;
+  limiter: HostLimiter;
+  policy: CrawlPolicy;
+  deadline: number;
+};
+
+// Returns how many tasks were worked on (not handed back)
+async function processJobBatch(env: BatchEnv, job: Job, site: SiteCfg, tasks: Task[]): Promise<number> {
+  const { supabase, rulesMap, limiter, policy, deadline } = env;
+  const { rules } = rulesMap.get(site.adapter_key) ?? { rules: undefined };
+  const startBy = deadline - COMMIT_HEADROOM_MS;
+  const crawl = createSiteCrawl(
+    { supabase, rules, limiter, policy, force: job.force, dryRun: job.dry_run, startBy },
+    site,
+    job.run_id ?? undefined,
+  );
+  const discoverTasks = tasks.filter((t) => t.kind === 'discover');
+  const leased = tasks.filter((t) => t.kind === 'detail' && t.url);
+
+  // one start per spacing until startBy; the rest go back for the next worker
+  const spacing = await hostSpacingMs(policy, site);
+  const fit = spacing ? Math.max(0, Math.floor((startBy - Date.now()) / spacing) + 1) : leased.length;
+  const detailTasks = leased.slice(0, fit);
+  const released = new Set(leased.slice(fit));
+  await releaseTasks(supabase, [...released]);
+
+  try {
+    if (discoverTasks.length) {
+      const discovered = await crawl.discover();
+      // max_items: feed rows (no fetch needed) count first, then detail pages
+      const budget = job.max_items ?? Infinity;
+      const feedRows = discovered.feedRows.slice(0, budget);
+      const links = discovered.links.slice(0, Math.max(0, budget - feedRows.length));
+      feedRows.forEach(crawl.ingest);
+      const { error } = links.length
+        ? await supabase
+            .from('crawl_tasks')
+            .upsert(
+              links.map((url) => ({ job_id: job.id, kind: 'detail', url })),
+              { onConflict: 'job_id,url', ignoreDuplicates: true },
+            )
+        : { error: null };
+      if (error) throw new Error(`queueing detail tasks: ${error.message}`);
+      await crawl.crawlWinners();
+      await supabase
+        .from('crawl_jobs')
+        .update({
+          links_found: discovered.linksFound,
+          links_processed: links.length + feedRows.length,
+          pages_crawled: discovered.pages,
+        })
+        .eq('id', job.id);
+    }
+
+    const outcomes = await crawl.crawlDetails(detailTasks.map((t) => t.url!));
+    const byOutcome = new Map<DetailOutcome, Task[]>();
+    detailTasks.forEach((t, i) => byOutcome.set(outcomes[i], [...(byOutcome.get(outcomes[i]) ?? []), t]));
+    // pages the host couldn't fit before the deadline: the finished ones are still committed
+    const deferred = byOutcome.get('deferred') ?? [];
+    deferred.forEach((t) => released.add(t));
+    byOutcome.delete('deferred');
+    await releaseTasks(supabase, deferred);
+
+    const { error } = await crawl.commit();
+    if (error) throw new Error(error);
+
+    // transient fetch failures go round again; every other outcome is final
+    await retryOrFail(supabase, byOutcome.get('fetch_failed') ?? [], 'fetch failed');
+    byOutcome.delete('fetch_failed');
+    await Promise.all([
+      setTasks(supabase, discoverTasks.map((t) => t.id), { status: 'done', outcome: 'ok' }),
+      ...[...byOutcome].map(([outcome, ts]) => setTasks(supabase, ts.map((t) => t.id), { status: 'done', outcome })),
+    ]);
+  } catch (e: unknown) {
+    const rest = tasks.filter((t) => !released.has(t));
+    if (e instanceof StartDeadlineError) {
+      // discovery ran out of time before any page was crawled: hand it all back
+      console.warn(`[scrape] job ${job.id} (${site.name}): discovery hit the deadline, handing back ${rest.length} task(s)`);
+      rest.forEach((t) => released.add(t));
+      await releaseTasks(supabase, rest);
+    } else {
+      const msg = e instanceof Error ? e.message : String(e);
+      console.error(`[scrape] job ${job.id} (${site.name}) batch failed:`, msg);
+      await retryOrFail(supabase, rest, msg);
+    }
+  }
+
+  await supabase.from('crawl_batches').insert({
+    job_id: job.id,
+    metrics: crawl.metrics(),
+    ...(job.dry_run ? { preview: crawl.preview() } : {}),
+  });
+  return tasks.length - released.size;
+}
+
+// ---------- worker ----------
+export async function runWorker(
+  supabase: SupabaseClient,
+  rulesMap: Map<string, RulesValidation>,
+  deadline: number,
+): Promise<WorkerReport> {
+  const env: BatchEnv = {
+    supabase,
+    rulesMap,
+    limiter: createHostLimiter(),
+    policy: createCrawlPolicy(),
+    deadline,
+  };
+  let processed = 0;
+  let finished = 0;
+
+  while (Date.now() + BATCH_HEADROOM_MS < deadline) {
+    const { data, error } = await supabase.rpc('claim_crawl_tasks', {
+      p_limit: BATCH_SIZE,
+      p_lease_seconds: LEASE_SECONDS,
+      p_max_attempts: MAX_ATTEMPTS,
+    });
+    if (error) throw error;
+    const tasks = (data ?? []) as Task[];
+    if (!tasks.length) break;
+
+    const jobIds = [...new Set(tasks.map((t) => t.job_id))];
+    const { data: jobRows, error: jobError } = await supabase
+      .from('crawl_jobs')
+      .select(JOB_COLUMNS)
+      .in('id', jobIds);
+    if (jobError) throw jobError;
+    const jobs = (jobRows ?? []) as Job[];
+    const sites = await loadSitesById(supabase, jobs.map((j) => j.site_id));
+
+    const worked = await mapPool(jobs, SITE_CONCURRENCY, async (job) => {
+      const mine = tasks.filter((t) => t.job_id === job.id);
+      const site = sites.get(job.site_id);
+      let n = mine.length;
+      if (!site) {
+        await setTasks(supabase, mine.map((t) => t.id), { status: 'failed', last_error: 'site deleted' });
+      } else {
+        n = await processJobBatch(env, job, site, mine);
+      }
+      if (await maybeFinishJob(supabase, job)) finished++;
+      return n;
+    });
+    const n = worked.reduce((a, b) => a + b, 0);
+    processed += n;
+    // everything was handed back: the hosts are booked up until the deadline
+    if (!n) break;
+  }
+
+  finished += await finishIdleJobs(supabase);
+  console.log('[scrape] worker:', { tasks: processed, jobs_finished: finished });
+  return { tasks: processed, jobs_finished: finished };
+}
@@ -0,0 +1,96 @@
+// lib/scrape/lifecycle.ts
+// Competition lifecycle: open → sold_out / draw_pending → drawn, plus cancelled
+// and removed (the detail page 404s). Adapters report what the page shows;
+// nextStatus decides what gets stored, and every change is audited in
+// competition_status_transitions (025_competition_status.sql).
+import type { CheerioAPI } from 'cheerio';
+import type { ApiRow, CompetitionStatus, ParseCtx } from './types';
+import { computeRemaining } from './utils';
+
+type Selection = ReturnType<CheerioAPI>;
+
+export const STATUS_LABELS: Record<CompetitionStatus, string> = {
+  open: 'Open',
+  sold_out: 'Sold out',
+  draw_pending: 'Awaiting draw',
+  drawn: 'Drawn',
+  cancelled: 'Cancelled',
+  removed: 'Removed',
+};
+
+export type StatusVerdict = { status: CompetitionStatus; reason: string | null };
+
+export const isClosedStatus = (s: CompetitionStatus | null | undefined) => !!s && s !== 'open';
+
+// ---------- page signals ----------
+const CANCELLED = /\b(?:competition\s+(?:has\s+been\s+)?cancell?ed|has\s+been\s+cancell?ed|cancell?ed\s+(?:and|&)\s+refunded)\b/i;
+const DRAWN = /\b(?:winner\s+(?:has\s+been\s+)?announced|winning\s+ticket(?:\s+number)?\s*(?:is|was|:)|congratulations\s+to\s+(?:our\s+)?(?:lucky\s+)?winner|(?:this\s+)?competition\s+has\s+been\s+drawn|draw\s+complete)\b/i;
+const DRAW_PENDING = /\b(?:awaiting\s+(?:the\s+)?(?:live\s+)?draw|draw\s+pending|live\s+draw\s+(?:is\s+)?(?:today|tonight|now|in\s+progress|happening)|draw\s+(?:is\s+)?(?:taking\s+place|in\s+progress))\b/i;
+const SOLD_OUT = /\bsold[\s-]*out\b/i;
+const WINNERS_PATH = /\/(?:winners?|results?|draw-results|past-draws|live-draws?|entry-lists?)(?:\/|$)/i;
+
+// The competition's own box, so "SOLD OUT" badges on related products don't count
+const SCOPES = ['.entry-summary', '.summary', '[class*="product-info"]', '[class*="competition-details"]', 'main'];
+// other competitions shown inside that box
+const ELSEWHERE = '.related, .upsells, .cross-sells, [class*="related"], [class*="carousel"], aside';
+
+const scopeOf = ($: CheerioAPI) => {
+  for (const sel of SCOPES) {
+    const el = $(sel).first();
+    if (el.length) return el;
+  }
+  return $('body');
+};
+
+const scopeText = (scope: Selection): string =>
+  scope.clone().find(ELSEWHERE).remove().end().text().replace(/\s+/g, ' ');
+
+// matches inside the box, outside any related-products block in it
+const ownMatches = (scope: Selection, selector: string): number =>
+  scope.find(selector).not(ELSEWHERE).not(scope.find(ELSEWHERE).find(selector)).length;
+
+const redirectedToWinners = (url: string, finalUrl?: string): boolean => {
+  if (!finalUrl || finalUrl === url) return false;
+  try {
+    return WINNERS_PATH.test(new URL(finalUrl).pathname) && !WINNERS_PATH.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+};
+
+// Strongest signal wins: drawn / cancelled, then an announced draw, sold out, a past closing date
+export const detectStatusDefault = ($: CheerioAPI, row: ApiRow, ctx?: ParseCtx): StatusVerdict => {
+  if (redirectedToWinners(row.url, ctx?.finalUrl)) return { status: 'drawn', reason: 'redirected to winners page' };
+
+  const scope = scopeOf($);
+  const text = scopeText(scope);
+  if (CANCELLED.test(text)) return { status: 'cancelled', reason: 'page says cancelled' };
+  if (DRAWN.test(text)) return { status: 'drawn', reason: 'winner announced on page' };
+  if (DRAW_PENDING.test(text)) return { status: 'draw_pending', reason: 'draw announced on page' };
+
+  const remaining = row.remaining_tickets ?? computeRemaining(row.total_tickets, row.tickets_sold);
+  if (
+    (remaining != null && remaining <= 0) ||
+    (row.total_tickets != null && row.tickets_sold != null && row.tickets_sold >= row.total_tickets)
+  ) {
+    return { status: 'sold_out', reason: 'no tickets remaining' };
+  }
+  // WooCommerce marks the product wrapper, which usually contains the box
+  const outOfStock = scope.closest('div.product.outofstock').length > 0 ||
+    ownMatches(scope, 'div.product.outofstock, .stock.out-of-stock, [class*="sold-out"]') > 0;
+  if (outOfStock || SOLD_OUT.test(text)) {
+    return { status: 'sold_out', reason: 'page says sold out' };
+  }
+
+  const now = ctx?.now?.getTime() ?? Date.now();
+  if (row.ends_at && new Date(row.ends_at).getTime() < now) return { status: 'draw_pending', reason: 'closing date passed' };
+  return { status: 'open', reason: null };
+};
+
+// ---------- transitions ----------
+// drawn and cancelled are final: a page left up afterwards doesn't reopen it.
+// Everything else follows the page (sites do add tickets or extend the date).
+export const nextStatus = (
+  prev: CompetitionStatus | null | undefined,
+  observed: CompetitionStatus,
+): CompetitionStatus => (prev === 'drawn' || prev === 'cancelled' ? prev : observed);
@@ -0,0 +1,124 @@
+// lib/scrape/metrics.ts
+// Per-run scrape metrics (stored on scrape_runs) and the health verdict the
+// admin page derives from them.
+import type { ApiRow } from './types';
+
+// HTTP status → count, final outcome per request ("network" = no response)
+export type StatusCounts = Record<string, number>;
+
+export const countStatus = (counts: StatusCounts, status: number | 'network') => {
+  const key = String(status);
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+// How many parsed rows had each field (of `rows`)
+export type FieldCoverage = {
+  rows: number;
+  entry_fee: number;
+  totals: number;
+  ends_at: number;
+  prize_value: number;
+};
+
+export const fieldCoverage = (rows: ApiRow[]): FieldCoverage => ({
+  rows: rows.length,
+  entry_fee: rows.filter((r) => r.entry_fee != null).length,
+  totals: rows.filter((r) => r.total_tickets != null).length,
+  ends_at: rows.filter((r) => r.ends_at != null).length,
+  prize_value: rows.filter((r) => r.prize_value != null).length,
+});
+
+// What one crawl (or one batch of a queued crawl job) adds to its scrape_runs row
+export type RunMetrics = {
+  duration_ms: number;
+  http_status: StatusCounts;
+  pages_fetched: number;
+  pages_unchanged: number;
+  pages_parsed: number;
+  parse_failures: number;
+  parse_failed_urls: string[] | null;
+  field_coverage: FieldCoverage;
+  items_ingested: number;
+  rows_held: number;
+  links_blocked: number;
+  blocked_urls: string[] | null;
+  draws_found: number;   // winners page announcements
+  draws_matched: number; // ... tied to a stored competition
+};
+
+// scrape_runs keeps a sample of blocked / unparseable URLs; the counts are complete
+export const MAX_URLS_RECORDED = 100;
+
+export const sampleUrls = (urls: string[]) => (urls.length ? urls.slice(0, MAX_URLS_RECORDED) : null);
+
+// Totals for a job crawled over several invocations
+export const mergeRunMetrics = (parts: RunMetrics[]): RunMetrics => {
+  const sum = (f: (m: RunMetrics) => number) => parts.reduce((n, m) => n + f(m), 0);
+  const http_status: StatusCounts = {};
+  for (const m of parts) {
+    for (const [k, n] of Object.entries(m.http_status ?? {})) http_status[k] = (http_status[k] ?? 0) + n;
+  }
+  return {
+    duration_ms: sum((m) => m.duration_ms),
+    http_status,
+    pages_fetched: sum((m) => m.pages_fetched),
+    pages_unchanged: sum((m) => m.pages_unchanged),
+    pages_parsed: sum((m) => m.pages_parsed),
+    parse_failures: sum((m) => m.parse_failures),
+    parse_failed_urls: sampleUrls(parts.flatMap((m) => m.parse_failed_urls ?? [])),
+    field_coverage: {
+      rows: sum((m) => m.field_coverage.rows),
+      entry_fee: sum((m) => m.field_coverage.entry_fee),
+      totals: sum((m) => m.field_coverage.totals),
+      ends_at: sum((m) => m.field_coverage.ends_at),
+      prize_value: sum((m) => m.field_coverage.prize_value),
+    },
+    items_ingested: sum((m) => m.items_ingested),
+    rows_held: sum((m) => m.rows_held),
+    links_blocked: sum((m) => m.links_blocked),
+    blocked_urls: sampleUrls(parts.flatMap((m) => m.blocked_urls ?? [])),
+    // batches recorded before winners crawling have neither
+    draws_found: sum((m) => m.draws_found ?? 0),
+    draws_matched: sum((m) => m.draws_matched ?? 0),
+  };
+};
+
+// ---------- health ----------
+export type RunSummary = {
+  status: string;
+  finished_at: string | null;
+  items_ingested: number | null;
+  pages_unchanged: number | null;
+  pages_parsed: number | null;
+  parse_failures: number | null;
+  field_coverage: FieldCoverage | null;
+};
+
+export type SiteHealth = 'ok' | 'degraded' | 'failing' | 'stale' | 'unknown';
+
+export const STALE_AFTER_MS = 36 * 60 * 60 * 1000; // a daily crawl missed at least once
+export const MIN_COVERAGE = 0.5;                   // price / totals on under half the rows
+export const MAX_PARSE_FAILURE_RATE = 0.2;
+
+export const coverageRatio = (c: FieldCoverage | null | undefined, field: Exclude<keyof FieldCoverage, 'rows'>) =>
+  c && c.rows > 0 ? c[field] / c.rows : null;
+
+// `runs` newest first
+export const siteHealth = (runs: RunSummary[], lastSuccessAt: string | null, now = Date.now()): SiteHealth => {
+  const last = runs[0];
+  if (!last) return 'unknown';
+  if (last.status === 'error') return 'failing';
+  if (!lastSuccessAt || now - new Date(lastSuccessAt).getTime() > STALE_AFTER_MS) return 'stale';
+
+  const parsed = last.pages_parsed ?? 0;
+  const failureRate = parsed > 0 ? (last.parse_failures ?? 0) / parsed : 0;
+  const lowCoverage = (['entry_fee', 'totals'] as const).some((f) => {
+    const r = coverageRatio(last.field_coverage, f);
+    return r != null && r < MIN_COVERAGE;
+  });
+  // a site that used to yield rows and suddenly yields none has a broken adapter
+  // (unchanged pages aren't re-parsed, so they count as yielding their rows)
+  const yielded = (r: RunSummary) => (r.items_ingested ?? 0) + (r.pages_unchanged ?? 0) > 0;
+  const wentEmpty = !yielded(last) && runs.slice(1).some(yielded);
+  return failureRate > MAX_PARSE_FAILURE_RATE || lowCoverage || wentEmpty ? 'degraded' : 'ok';
+};
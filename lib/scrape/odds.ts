@@ -0,0 +1,49 @@
+// lib/scrape/odds.ts
+// Odds helpers shared by the results and competition pages.
+
+type OddsInput = {
+  total_tickets: number | null;
+  remaining_tickets?: number | null;
+  instant_wins_remaining?: number | null;
+};
+
+// Chance one ticket bought now wins anything: the main draw (1 in total tickets)
+// or one of the instant wins still attached to the unsold ticket numbers.
+export const chanceOfAnyWin = (c: OddsInput): number | null => {
+  if (!c.total_tickets) return null;
+  const main = 1 / c.total_tickets;
+  const iw = c.instant_wins_remaining ?? 0;
+  const instant = iw > 0 && c.remaining_tickets ? Math.min(1, iw / c.remaining_tickets) : 0;
+  return 1 - (1 - main) * (1 - instant);
+};
+
+// 0.0125 → 80 ("1 in 80")
+export const oneIn = (p: number | null): number | null => (p && p > 0 ? Math.max(1, Math.round(1 / p)) : null);
+
+type EvInput = OddsInput & {
+  entry_fee: number | null;
+  prize_value?: number | null;
+  cash_alternative?: number | null;
+  instant_wins?: { value: number | null; quantity: number; claimed: number }[];
+};
+
+// Main prize at its cash alternative when there is one (what a winner can
+// actually bank), spread over every ticket; unclaimed instant wins spread over
+// the tickets still unsold.
+export const expectedValue = (c: EvInput): { ev_per_ticket: number | null; ev_per_pound: number | null } => {
+  const main = c.cash_alternative ?? c.prize_value ?? null;
+  const instantPot = (c.instant_wins ?? []).reduce(
+    (sum, w) => sum + (w.value ?? 0) * Math.max(0, w.quantity - w.claimed),
+    0,
+  );
+  const fromMain = main != null && c.total_tickets ? main / c.total_tickets : 0;
+  const fromInstant = instantPot && c.remaining_tickets ? instantPot / c.remaining_tickets : 0;
+  const ev = fromMain + fromInstant;
+  if (!ev) return { ev_per_ticket: null, ev_per_pound: null };
+
+  const round = (n: number) => Math.round(n * 10_000) / 10_000;
+  return {
+    ev_per_ticket: round(ev),
+    ev_per_pound: c.entry_fee ? round(ev / c.entry_fee) : null,
+  };
+};
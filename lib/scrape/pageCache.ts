@@ -0,0 +1,62 @@
+// lib/scrape/pageCache.ts
+// page_cache: HTTP validators + a normalized content hash per detail URL, so
+// unchanged pages skip parsing and upserting (see 012_page_cache.sql).
+import { createHash } from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Validators } from './fetch';
+
+export type PageCacheEntry = Validators & {
+  url: string;
+  content_hash: string | null;
+  checked_at?: string;
+};
+
+const LOAD_CHUNK = 200; // keeps the `in (...)` filter well under URL length limits
+
+// Markup that changes on every request without the competition changing
+const VOLATILE: RegExp[] = [
+  /<!--[\s\S]*?-->/g,
+  /\snonce="[^"]*"/gi,
+  /"[\w-]*nonce"\s*:\s*"[^"]*"/gi,
+  /name="_?wpnonce"\s+value="[^"]*"/gi,
+  /[?&](?:ver|v|_)=[\w.-]+/g,
+  /\bdata-(?:timestamp|server-time|now)="[^"]*"/gi,
+];
+
+// `salt` covers what the parse depends on besides the page (adapter key, rules),
+// so editing adapter_rules re-parses everything once.
+export const contentHash = (html: string, salt = ''): string => {
+  let s = html;
+  for (const re of VOLATILE) s = s.replace(re, '');
+  s = s.replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(salt).update('\0').update(s).digest('hex');
+};
+
+export async function loadPageCache(
+  supabase: SupabaseClient,
+  urls: string[],
+): Promise<Map<string, PageCacheEntry>> {
+  const out = new Map<string, PageCacheEntry>();
+  for (let i = 0; i < urls.length; i += LOAD_CHUNK) {
+    const { data, error } = await supabase
+      .from('page_cache')
+      .select('url,etag,last_modified,content_hash')
+      .in('url', urls.slice(i, i + LOAD_CHUNK));
+    if (error) {
+      // a missing cache only costs a full fetch
+      console.error('[scrape] page_cache load error:', error.message);
+      return out;
+    }
+    (data ?? []).forEach((r: PageCacheEntry) => out.set(r.url, r));
+  }
+  return out;
+}
+
+export async function savePageCache(supabase: SupabaseClient, entries: PageCacheEntry[]): Promise<void> {
+  if (!entries.length) return;
+  const checked_at = new Date().toISOString();
+  const { error } = await supabase
+    .from('page_cache')
+    .upsert(entries.map((e) => ({ ...e, checked_at })), { onConflict: 'url' });
+  if (error) console.error('[scrape] page_cache upsert error:', error.message);
+}
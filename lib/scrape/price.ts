@@ -0,0 +1,175 @@
+// lib/scrape/price.ts
+// Entry-fee helpers: JSON-LD, meta tags, DOM/text candidates and anchor text.
+// Every price carries the currency it was written in (null = not stated).
+import type { CheerioAPI } from 'cheerio';
+import type { FieldSource, Price, Rules } from './types';
+import { toFloat } from './utils';
+import { BASE_CURRENCY, detectCurrency, normalizeCurrency } from './currency';
+
+// "£2.50", "€2,50", "2,50 €", "EUR 2.50", "2.50 EUR"
+const MONEY_RE =
+  /(?:[£€$]|\b(?:GBP|EUR|USD)\b)\s?\d+(?:[.,]\d{1,2})?(?!\d)|\b\d+(?:[.,]\d{1,2})?\s?(?:€|\b(?:GBP|EUR|USD)\b)/gi;
+const moneyRe = (prefix: string) =>
+  new RegExp(`${prefix}[\\s\\S]{0,200}?((?:[£€$]|\\b(?:GBP|EUR|USD)\\b)\\s?\\d+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?\\s?€)`, 'i');
+
+// Every schema.org node of `type` in the page's JSON-LD (top level, arrays, @graph)
+export const jsonLdNodes = ($: CheerioAPI, type: string) => {
+  const blocks = $('script[type="application/ld+json"]')
+    .map((_, el) => $(el).contents().text())
+    .get();
+
+  const out = [];
+  for (const raw of blocks) {
+    try {
+      const data = JSON.parse(raw);
+      const nodes = Array.isArray(data) ? data : [data];
+      for (const node of nodes) {
+        const graph = Array.isArray(node?.['@graph']) ? node['@graph'] : [node];
+        for (const g of graph) {
+          const typeArr = g?.['@type'] ? (Array.isArray(g['@type']) ? g['@type'] : [g['@type']]) : [];
+          if (typeArr.includes(type)) out.push(g);
+        }
+      }
+    } catch { /* ignore */ }
+  }
+  return out;
+};
+
+export const jsonLdProducts = ($: CheerioAPI) => jsonLdNodes($, 'Product');
+
+export const readJsonLdProduct = ($: CheerioAPI): { name?: string; price?: number | null; currency?: string | null } => {
+  for (const g of jsonLdProducts($)) {
+    const offers = Array.isArray(g.offers) ? g.offers[0] : g.offers;
+    const price = offers?.price ? Number(String(offers.price).replace(/[^\d.]/g, '')) : null;
+    const name = typeof g.name === 'string' ? g.name.trim() : undefined;
+    const currency = normalizeCurrency(offers?.priceCurrency);
+    if (name || price != null) return { name, price: price ?? null, currency };
+  }
+  return {};
+};
+
+const metaContent = ($: CheerioAPI, props: string[]) => {
+  for (const p of props) {
+    const v = $(`meta[property="${p}"], meta[name="${p}"]`).attr('content');
+    if (v) return v;
+  }
+  return undefined;
+};
+
+export const readMetaPrice = ($: CheerioAPI): number | null =>
+  toFloat(metaContent($, ['product:price:amount', 'og:price:amount', 'twitter:data1']));
+
+export const readMetaCurrency = ($: CheerioAPI): string | null =>
+  normalizeCurrency(metaContent($, ['product:price:currency', 'og:price:currency']));
+
+export type PriceCandidate = { value: number; source: FieldSource; currency?: string | null };
+
+// Gather candidate prices from DOM/text, tagged with where each came from
+export const collectPriceCandidates = ($: CheerioAPI, rules?: Rules): PriceCandidate[] => {
+  const cands: PriceCandidate[] = [];
+  const pushN = (n: number | null, source: FieldSource, currency: string | null = null) => {
+    if (n != null && Number.isFinite(n)) cands.push({ value: Number(n.toFixed(2)), source, currency });
+  };
+  const pushText = (text: string, source: FieldSource) => pushN(toFloat(text), source, detectCurrency(text));
+
+  (rules?.price_selectors ?? []).forEach((sel: string) => pushText($(sel).first().text(), 'rules_selector'));
+
+  [
+    '.summary .price .amount',
+    '.woocommerce-Price-amount',
+    '.price .amount',
+    '[class*="price"] .amount',
+    '[class*="price"]'
+  ].forEach((sel) => pushText($(sel).first().text(), 'selector'));
+
+  $('[data-price], [data-entry-price], [data-price-per-entry], [data-ticket-price]').each((_, el) => {
+    pushN(toFloat($(el).attr('data-price')), 'data_attr');
+    pushN(toFloat($(el).attr('data-entry-price')), 'data_attr');
+    pushN(toFloat($(el).attr('data-price-per-entry')), 'data_attr');
+    pushN(toFloat($(el).attr('data-ticket-price')), 'data_attr');
+  });
+
+  const body = $('body').text();
+  const strictMatches = body.match(MONEY_RE) || [];
+  strictMatches.forEach((m) => pushText(m, 'text'));
+
+  if (!strictMatches.length) {
+    const relaxed = body.match(/\b(\d+(?:\.\d{1,2})?)\b/g) || [];
+    relaxed.forEach((m) => pushN(toFloat(m), 'text_relaxed'));
+  }
+
+  const min: number | null = rules?.price_min ?? 0.01;
+  const max: number | null = rules?.price_max ?? 100;
+  return cands.filter(({ value: n }) => (min == null || n >= min) && (max == null || n <= max));
+};
+
+export const chooseBestPrice = (
+  cands: PriceCandidate[],
+  trusted?: PriceCandidate | null,
+  rules?: Rules,
+): PriceCandidate | null => {
+  if (trusted != null) return trusted;
+  if (!cands.length) return null;
+
+  const preferMin = rules?.price_prefer_min ?? 0.15;
+  const preferMax = rules?.price_prefer_max ?? 5.0;
+  const preferUnder = rules?.price_prefer_under ?? 1.0;
+
+  const inWin = (n: number) => n >= preferMin && n <= preferMax;
+  const hasDecimals = (n: number) => Math.abs(n - Math.round(n)) > 1e-9;
+  // lowest value; ties keep the earlier (more specific) source
+  const lowest = (cs: PriceCandidate[]) => cs.reduce((a, b) => (b.value < a.value ? b : a));
+
+  const decUnder = cands.filter((c) => hasDecimals(c.value) && c.value < preferUnder);
+  if (decUnder.length) return lowest(decUnder);
+
+  const decIn = cands.filter((c) => inWin(c.value) && hasDecimals(c.value));
+  if (decIn.length) return lowest(decIn);
+
+  const decAll = cands.filter((c) => hasDecimals(c.value));
+  if (decAll.length) return lowest(decAll);
+
+  const intIn = cands.filter((c) => inWin(c.value) && !hasDecimals(c.value));
+  if (intIn.length) return lowest(intIn);
+
+  return lowest(cands);
+};
+
+export const extractPriceViaAnchor = ($: CheerioAPI, rules?: Rules): PriceCandidate | null => {
+  const anchor: string | undefined = rules?.price_anchor_text;
+  if (!anchor) return null;
+
+  const re = moneyRe(anchor);
+  const m = ($.root().html() ?? '').match(re) ?? $('body').text().match(re);
+  const value = toFloat(m?.[1]);
+  return value != null ? { value, source: 'anchor_text', currency: detectCurrency(m?.[1]) } : null;
+};
+
+// Currency for the whole page when a price doesn't state its own: structured
+// data first, then whichever symbol the body text uses most
+const pageCurrency = ($: CheerioAPI): string => {
+  const declared = readJsonLdProduct($).currency ?? readMetaCurrency($);
+  if (declared) return declared;
+  const counts = new Map<string, number>();
+  ($('body').text().match(MONEY_RE) ?? []).forEach((m) => {
+    const c = detectCurrency(m);
+    if (c) counts.set(c, (counts.get(c) ?? 0) + 1);
+  });
+  const top = [...counts].sort((a, b) => b[1] - a[1])[0];
+  return top?.[0] ?? BASE_CURRENCY;
+};
+
+// Full entry-fee cascade: anchor text → JSON-LD/meta → best DOM/text candidate
+export const extractEntryFee = ($: CheerioAPI, rules?: Rules): Price => {
+  const ld = readJsonLdProduct($);
+  const metaPrice = readMetaPrice($);
+  const trusted: PriceCandidate | null =
+    extractPriceViaAnchor($, rules) ??
+    (ld.price != null ? { value: ld.price, source: 'json_ld', currency: ld.currency } :
+    metaPrice != null ? { value: metaPrice, source: 'meta', currency: readMetaCurrency($) } :
+    null);
+
+  const best = chooseBestPrice(collectPriceCandidates($, rules), trusted, rules);
+  if (!best) return { value: null, source: 'none', currency: null };
+  return { value: best.value, source: best.source, currency: best.currency ?? pageCurrency($) };
+};
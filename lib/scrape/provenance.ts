@@ -0,0 +1,29 @@
+// lib/scrape/provenance.ts
+// Confidence per extraction strategy, and the thresholds the results page flags at.
+import type { FieldProvenance, FieldSource } from './types';
+
+// 'none' means nothing was found: there's no guess to be unsure of, so no score
+export const SOURCE_CONFIDENCE: Record<FieldSource, number | null> = {
+  api: 0.95,
+  json_ld: 0.95,
+  meta: 0.9,
+  rules_selector: 0.9,
+  anchor_text: 0.85,
+  selector: 0.75,
+  data_attr: 0.75,
+  script: 0.7,
+  text: 0.6,
+  derived: 0.6,
+  title: 0.4,
+  text_relaxed: 0.2,
+  none: null,
+};
+
+// Below this the UI flags the value; below HIDE it shows "Unverified" instead
+export const LOW_CONFIDENCE = 0.5;
+export const HIDE_CONFIDENCE = 0.3;
+
+export const provenanceOf = (source: FieldSource = 'none'): FieldProvenance => ({
+  source,
+  confidence: SOURCE_CONFIDENCE[source],
+});
@@ -0,0 +1,278 @@
+// lib/scrape/requests.ts
+// Targeted scrapes. POST /api/scrape with `sites` (ids or names), `urls`,
+// `max_items` or `dry_run` queues one job per site (lib/scrape/jobs.ts) under a
+// crawl_requests row (027_crawl_requests.sql) instead of crawling inline; its
+// id is polled at GET /api/scrape/runs/<id>. Admins and the cron key may
+// target anything; premium users may refresh a few competitions we already list.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SiteCfg } from './types';
+import type { RulesValidation } from './rules';
+import type { Requester } from './auth';
+import { canonicalUrl } from './url';
+import { createJob } from './jobs';
+import { loadAllSites, loadSitesById, type PreviewRow } from './siteCrawl';
+
+export const MAX_URLS = 500;
+export const PREMIUM_MAX_URLS = 3;
+export const PREMIUM_REQUESTS_PER_HOUR = 10;
+const MAX_PREVIEW_ROWS = 500;
+
+export class CrawlRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'CrawlRequestError';
+  }
+}
+
+export type CrawlRequestParams = {
+  sites: string[];         // site ids or names: full crawl
+  urls: string[];          // detail pages only, grouped by the site they belong to
+  max_items: number | null; // per site
+  dry_run: boolean;        // parse and report, write nothing
+  force: boolean;          // ignore page_cache (always on for dry runs)
+};
+
+// ---------- body ----------
+const TARGET_KEYS = ['sites', 'urls', 'max_items', 'dry_run'] as const;
+
+// Bodies without any of these keep the inline crawl ({ query, tier, force })
+export const isTargeted = (body: unknown): boolean =>
+  !!body && typeof body === 'object' && TARGET_KEYS.some((k) => k in body);
+
+const stringList = (v: unknown, field: string): string[] => {
+  if (v == null) return [];
+  if (!Array.isArray(v) || v.some((s) => typeof s !== 'string' || !s.trim())) {
+    throw new CrawlRequestError(`"${field}" must be a list of non-empty strings`, 400);
+  }
+  return [...new Set(v.map((s: string) => s.trim()))];
+};
+
+export const parseCrawlRequest = (body: Record<string, unknown>): CrawlRequestParams => {
+  const sites = stringList(body.sites, 'sites');
+  const urls = stringList(body.urls, 'urls').map((u) => {
+    try {
+      const url = new URL(u);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+    } catch {
+      throw new CrawlRequestError(`Not an http(s) URL: ${u}`, 400);
+    }
+    return canonicalUrl(u);
+  });
+  if (!sites.length && !urls.length) throw new CrawlRequestError('Provide "sites" and/or "urls"', 400);
+  if (urls.length > MAX_URLS) throw new CrawlRequestError(`At most ${MAX_URLS} urls per request`, 400);
+
+  const max = body.max_items;
+  if (max != null && (typeof max !== 'number' || !Number.isInteger(max) || max < 1)) {
+    throw new CrawlRequestError('"max_items" must be a positive integer', 400);
+  }
+  return {
+    sites,
+    urls,
+    max_items: (max as number | undefined) ?? null,
+    dry_run: body.dry_run === true,
+    force: body.force === true,
+  };
+};
+
+// ---------- who may ask for what ----------
+export async function authorizeCrawlRequest(
+  supabase: SupabaseClient,
+  requester: Requester,
+  params: CrawlRequestParams,
+): Promise<void> {
+  if (requester.kind === 'service' || requester.tier === 'admin') return;
+  if (requester.tier !== 'premium') throw new CrawlRequestError('On-demand refresh is a premium feature', 403);
+
+  if (params.sites.length || params.dry_run || params.force) {
+    throw new CrawlRequestError('Premium refreshes take "urls" only', 403);
+  }
+  if (params.urls.length > PREMIUM_MAX_URLS) {
+    throw new CrawlRequestError(`At most ${PREMIUM_MAX_URLS} urls per refresh`, 400);
+  }
+
+  const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const { count, error } = await supabase
+    .from('crawl_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq('requested_by', requester.id)
+    .gte('created_at', since);
+  if (error) throw error;
+  if ((count ?? 0) >= PREMIUM_REQUESTS_PER_HOUR) {
+    throw new CrawlRequestError(`At most ${PREMIUM_REQUESTS_PER_HOUR} refreshes an hour`, 429);
+  }
+
+  // only competitions we already list, not arbitrary pages on a site
+  const { data, error: compError } = await supabase.from('competitions').select('url').in('url', params.urls);
+  if (compError) throw compError;
+  const known = new Set((data ?? []).map((r: { url: string }) => r.url));
+  const unknown = params.urls.filter((u) => !known.has(u));
+  if (unknown.length) throw new CrawlRequestError(`Not a listed competition: ${unknown.join(', ')}`, 400);
+}
+
+// ---------- queue ----------
+const hostOf = (u: string) => {
+  try { return new URL(u).hostname.replace(/^www\./, ''); } catch { return ''; }
+};
+
+export type NotQueued = { site: string; reason: string };
+export type QueuedRequest = { id: string; jobs: number; not_queued: NotQueued[] };
+
+export async function createCrawlRequest(
+  supabase: SupabaseClient,
+  rulesMap: Map<string, RulesValidation>,
+  params: CrawlRequestParams,
+  requester: Requester,
+): Promise<QueuedRequest> {
+  const all = await loadAllSites(supabase);
+
+  const unknownSites: string[] = [];
+  const fullSites = new Map<string, SiteCfg>();
+  for (const ref of params.sites) {
+    const site = all.find((s) => s.id === ref || s.name.toLowerCase() === ref.toLowerCase());
+    if (site) fullSites.set(site.id, site);
+    else unknownSites.push(ref);
+  }
+  if (unknownSites.length) throw new CrawlRequestError(`Unknown site(s): ${unknownSites.join(', ')}`, 400);
+
+  // a URL on a site that is crawled in full anyway needs no job of its own
+  const urlsBySite = new Map<SiteCfg, string[]>();
+  const unknownHosts: string[] = [];
+  for (const url of params.urls) {
+    const site = all.find((s) => hostOf(s.list_url) === hostOf(url));
+    if (!site) unknownHosts.push(url);
+    else if (!fullSites.has(site.id)) urlsBySite.set(site, [...(urlsBySite.get(site) ?? []), url]);
+  }
+  if (unknownHosts.length) throw new CrawlRequestError(`No site for: ${unknownHosts.join(', ')}`, 400);
+
+  const { data: request, error } = await supabase
+    .from('crawl_requests')
+    .insert({
+      requested_by: requester.kind === 'user' ? requester.id : null,
+      params,
+      dry_run: params.dry_run,
+    })
+    .select('id')
+    .single();
+  if (error || !request) throw new Error(`crawl_requests insert: ${error?.message}`);
+
+  const job = {
+    request_id: request.id as string,
+    max_items: params.max_items,
+    dry_run: params.dry_run,
+    force: params.force || params.dry_run,
+  };
+  const notQueued: NotQueued[] = [];
+  const queue = async (site: SiteCfg, kind: 'full' | 'refresh', urls: string[]) => {
+    const res = await createJob(supabase, site, rulesMap, kind, urls, job);
+    if (!res.queued) notQueued.push({ site: site.name, reason: res.reason });
+  };
+  for (const site of fullSites.values()) await queue(site, 'full', []);
+  for (const [site, urls] of urlsBySite) {
+    await queue(site, 'refresh', params.max_items != null ? urls.slice(0, params.max_items) : urls);
+  }
+  if (notQueued.length) {
+    const { error: updateError } = await supabase
+      .from('crawl_requests')
+      .update({ not_queued: notQueued })
+      .eq('id', job.request_id);
+    if (updateError) console.error('[scrape] crawl_requests not_queued update error:', updateError.message);
+  }
+  return { id: job.request_id, jobs: fullSites.size + urlsBySite.size - notQueued.length, not_queued: notQueued };
+}
+
+// ---------- progress ----------
+type TaskCounts = { pending: number; leased: number; done: number; failed: number };
+
+export type RequestJobStatus = {
+  site: string;
+  kind: 'full' | 'refresh';
+  status: 'running' | 'done' | 'error';
+  tasks: TaskCounts;
+  links_found: number | null;
+  error: string | null;
+  finished_at: string | null;
+};
+
+export type CrawlRequestStatus = {
+  id: string;
+  requested_by: string | null;
+  created_at: string;
+  dry_run: boolean;
+  // partial: some jobs errored or some sites were never queued
+  status: 'running' | 'done' | 'partial' | 'error';
+  progress: { done: number; total: number };
+  jobs: RequestJobStatus[];
+  not_queued: NotQueued[];
+  preview?: PreviewRow[]; // dry runs, capped
+};
+
+export const requestStatus = (jobs: Pick<RequestJobStatus, 'status'>[], notQueued: NotQueued[]): CrawlRequestStatus['status'] => {
+  if (jobs.some((j) => j.status === 'running')) return 'running';
+  const done = jobs.filter((j) => j.status === 'done').length;
+  if (!done) return 'error';
+  return done === jobs.length && !notQueued.length ? 'done' : 'partial';
+};
+
+export async function getCrawlRequest(supabase: SupabaseClient, id: string): Promise<CrawlRequestStatus | null> {
+  const { data: request, error } = await supabase
+    .from('crawl_requests')
+    .select('id,requested_by,created_at,dry_run,not_queued')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!request) return null;
+
+  const [jobsRes, progressRes] = await Promise.all([
+    supabase
+      .from('crawl_jobs')
+      .select('id,site_id,kind,status,links_found,error,finished_at')
+      .eq('request_id', id)
+      .order('id'),
+    supabase.rpc('crawl_request_progress', { p_request_id: id }),
+  ]);
+  if (jobsRes.error) throw jobsRes.error;
+  if (progressRes.error) throw progressRes.error;
+  const jobs = jobsRes.data ?? [];
+  const sites = await loadSitesById(supabase, [...new Set(jobs.map((j) => j.site_id as string))]);
+
+  const counts = new Map<number, TaskCounts>();
+  for (const p of (progressRes.data ?? []) as { job_id: number; status: keyof TaskCounts; n: number }[]) {
+    const c = counts.get(p.job_id) ?? { pending: 0, leased: 0, done: 0, failed: 0 };
+    c[p.status] = Number(p.n);
+    counts.set(p.job_id, c);
+  }
+
+  const jobStatuses: RequestJobStatus[] = jobs.map((j) => ({
+    site: sites.get(j.site_id)?.name ?? j.site_id,
+    kind: j.kind,
+    status: j.status,
+    tasks: counts.get(j.id) ?? { pending: 0, leased: 0, done: 0, failed: 0 },
+    links_found: j.links_found,
+    error: j.error,
+    finished_at: j.finished_at,
+  }));
+  const total = jobStatuses.reduce((n, j) => n + j.tasks.pending + j.tasks.leased + j.tasks.done + j.tasks.failed, 0);
+  const done = jobStatuses.reduce((n, j) => n + j.tasks.done + j.tasks.failed, 0);
+
+  const notQueued = (request.not_queued ?? []) as NotQueued[];
+  const out: CrawlRequestStatus = {
+    ...request,
+    status: requestStatus(jobStatuses, notQueued),
+    progress: { done, total },
+    jobs: jobStatuses,
+    not_queued: notQueued,
+  };
+
+  if (request.dry_run && jobs.length) {
+    const { data: batches, error: batchError } = await supabase
+      .from('crawl_batches')
+      .select('preview')
+      .in('job_id', jobs.map((j) => j.id))
+      .order('id');
+    if (batchError) throw batchError;
+    out.preview = (batches ?? [])
+      .flatMap((b: { preview: PreviewRow[] | null }) => b.preview ?? [])
+      .slice(0, MAX_PREVIEW_ROWS);
+  }
+  return out;
+}
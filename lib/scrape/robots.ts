@@ -0,0 +1,140 @@
+// lib/scrape/robots.ts
+// Crawl policy: robots.txt per host (RFC 9309), fetched once per run and shared
+// by every site on that host. Allow / Disallow support * and $; the longest
+// matching rule wins and Allow wins ties. Crawl-delay widens the host spacing.
+import { fetchHtml, HttpError } from './fetch';
+
+type Rule = { allow: boolean; length: number; re: RegExp };
+type Group = { agents: string[]; rules: Rule[]; crawlDelaySec: number | null };
+
+// 'unavailable' (4xx): no restrictions; 'unreachable' (5xx / network): crawl nothing
+type Robots = { kind: 'parsed'; groups: Group[] } | { kind: 'unavailable' } | { kind: 'unreachable' };
+
+export type CrawlVerdict = { allowed: boolean; crawlDelayMs: number };
+
+export class RobotsBlockedError extends Error {
+  constructor(public url: string) {
+    super(`Blocked by robots.txt: ${url}`);
+    this.name = 'RobotsBlockedError';
+  }
+}
+
+const MAX_ROBOTS_BYTES = 500 * 1024; // RFC 9309: parse at least the first 500 KiB
+
+const patternToRegex = (pattern: string): RegExp => {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+};
+
+export const parseRobots = (text: string): Group[] => {
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const raw of text.slice(0, MAX_ROBOTS_BYTES).split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (key === 'user-agent') {
+      // consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelaySec: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue; // rules before any User-agent belong to nobody
+
+    if (key === 'allow' || key === 'disallow') {
+      if (!value) continue; // "Disallow:" with no path allows everything
+      current.rules.push({ allow: key === 'allow', length: value.length, re: patternToRegex(value) });
+    } else if (key === 'crawl-delay') {
+      const secs = Number(value);
+      if (Number.isFinite(secs) && secs >= 0) current.crawlDelaySec = secs;
+    }
+  }
+  return groups;
+};
+
+// Groups naming our product token ("PrizeWolfBot" from "PrizeWolfBot/1.0 (…)"),
+// the longest match first; the "*" groups otherwise
+const groupsFor = (groups: Group[], userAgent: string): Group[] => {
+  const token = userAgent.split(/[\s/]/)[0].toLowerCase();
+  let best = 0;
+  for (const g of groups) {
+    for (const a of g.agents) if (a !== '*' && token.startsWith(a)) best = Math.max(best, a.length);
+  }
+  if (best) return groups.filter((g) => g.agents.some((a) => a !== '*' && a.length === best && token.startsWith(a)));
+  return groups.filter((g) => g.agents.includes('*'));
+};
+
+export const isAllowedBy = (groups: Group[], userAgent: string, url: string): CrawlVerdict => {
+  let path: string;
+  try {
+    const u = new URL(url);
+    path = `${u.pathname}${u.search}`;
+  } catch {
+    return { allowed: false, crawlDelayMs: 0 };
+  }
+  const mine = groupsFor(groups, userAgent);
+  const delays = mine.map((g) => g.crawlDelaySec).filter((d): d is number => d != null);
+  const crawlDelayMs = delays.length ? Math.max(...delays) * 1000 : 0;
+  if (path === '/robots.txt') return { allowed: true, crawlDelayMs };
+
+  let winner: Rule | null = null;
+  for (const g of mine) {
+    for (const r of g.rules) {
+      if (!r.re.test(path)) continue;
+      if (!winner || r.length > winner.length || (r.length === winner.length && r.allow)) winner = r;
+    }
+  }
+  return { allowed: winner?.allow ?? true, crawlDelayMs };
+};
+
+export type CrawlPolicy = {
+  /** Whether `userAgent` may fetch `url`, and the host's Crawl-delay for it. */
+  check(url: string, userAgent: string): Promise<CrawlVerdict>;
+};
+
+export function createCrawlPolicy(
+  fetchRobots: (url: string, userAgent: string) => Promise<string> = (url, userAgent) => fetchHtml(url, { userAgent }),
+): CrawlPolicy {
+  const byOrigin = new Map<string, Promise<Robots>>();
+
+  const load = async (origin: string, userAgent: string): Promise<Robots> => {
+    try {
+      return { kind: 'parsed', groups: parseRobots(await fetchRobots(`${origin}/robots.txt`, userAgent)) };
+    } catch (e) {
+      if (e instanceof HttpError && e.status >= 400 && e.status < 500 && e.status !== 429) return { kind: 'unavailable' };
+      console.warn(`[scrape] robots.txt unreachable for ${origin}; not crawling it this run:`, e instanceof Error ? e.message : e);
+      return { kind: 'unreachable' };
+    }
+  };
+
+  return {
+    async check(url, userAgent) {
+      let origin: string;
+      try { origin = new URL(url).origin; } catch { return { allowed: false, crawlDelayMs: 0 }; }
+      // one request per host even when several sites / workers ask at once
+      let robots = byOrigin.get(origin);
+      if (!robots) {
+        robots = load(origin, userAgent);
+        byOrigin.set(origin, robots);
+      }
+      const r = await robots;
+      if (r.kind === 'unavailable') return { allowed: true, crawlDelayMs: 0 };
+      if (r.kind === 'unreachable') return { allowed: false, crawlDelayMs: 0 };
+      return isAllowedBy(r.groups, userAgent, url);
+    },
+  };
+}
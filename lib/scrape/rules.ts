@@ -0,0 +1,158 @@
+// lib/scrape/rules.ts
+// adapter_rules.rules schema (versioned) + load-time validation. Invalid entries
+// are dropped and reported instead of blowing up (or being ignored) mid-crawl.
+import { load } from 'cheerio';
+import type { DiscoveryCfg, Rules } from './types';
+import { isCategory } from './categories';
+
+export const RULES_VERSION = 1;
+
+type FieldKind = 'number' | 'regex' | 'regex[]' | 'selector' | 'selector[]' | 'category_regex[]' | 'rules';
+
+// Every key a parser reads. Keep in sync with AdapterRulesV1 in ./types.ts.
+const SCHEMA: Record<Exclude<keyof Rules, 'version'>, FieldKind> = {
+  prize_selectors: 'selector[]',
+
+  price_selectors: 'selector[]',
+  price_anchor_text: 'regex',
+  price_min: 'number',
+  price_max: 'number',
+  price_prefer_min: 'number',
+  price_prefer_max: 'number',
+  price_prefer_under: 'number',
+
+  total_selector: 'selector',
+  sold_selector: 'selector',
+  remaining_selector: 'selector',
+  total_patterns: 'regex[]',
+  sold_patterns: 'regex[]',
+  remaining_patterns: 'regex[]',
+  max_patterns_script: 'regex[]',
+  sold_patterns_script: 'regex[]',
+  remaining_patterns_script: 'regex[]',
+
+  ends_at_selectors: 'selector[]',
+
+  instant_win_selectors: 'selector[]',
+
+  prize_value_selectors: 'selector[]',
+  cash_alternative_selectors: 'selector[]',
+
+  breadcrumb_selectors: 'selector[]',
+  category_patterns: 'category_regex[]',
+
+  free_entry_selectors: 'selector[]',
+  skill_question_selectors: 'selector[]',
+
+  winners_card_selectors: 'selector[]',
+
+  fallback: 'rules',
+};
+
+export type RulesValidation = { rules: Rules; issues: string[] };
+
+const $probe = load('');
+
+const isValidRegex = (p: string) => {
+  try { new RegExp(p, 'i'); return true; } catch { return false; }
+};
+const isValidSelector = (s: string) => {
+  try { $probe(s); return true; } catch { return false; }
+};
+
+const checkOne = (kind: 'regex' | 'selector', v: unknown, path: string, issues: string[]): v is string => {
+  if (typeof v !== 'string') {
+    issues.push(`${path}: expected string, got ${v === null ? 'null' : typeof v}`);
+    return false;
+  }
+  const ok = kind === 'regex' ? isValidRegex(v) : isValidSelector(v);
+  if (!ok) issues.push(`${path}: invalid ${kind} ${JSON.stringify(v)}`);
+  return ok;
+};
+
+export function validateRules(raw: unknown, path = 'rules'): RulesValidation {
+  const issues: string[] = [];
+  if (raw == null) return { rules: {}, issues };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { rules: {}, issues: [`${path}: expected an object`] };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+
+  if (input.version != null && input.version !== RULES_VERSION) {
+    issues.push(`${path}.version: unsupported version ${JSON.stringify(input.version)} (expected ${RULES_VERSION})`);
+  }
+
+  for (const [key, value] of Object.entries(input)) {
+    if (key === 'version') continue;
+    const at = `${path}.${key}`;
+    const kind = SCHEMA[key as keyof typeof SCHEMA];
+    if (!kind) {
+      issues.push(`${at}: unknown key (ignored)`);
+      continue;
+    }
+
+    switch (kind) {
+      case 'number':
+        // null is meaningful for the price window ("no bound")
+        if (value === null || (typeof value === 'number' && Number.isFinite(value))) out[key] = value;
+        else issues.push(`${at}: expected number, got ${typeof value}`);
+        break;
+      case 'regex':
+      case 'selector':
+        if (checkOne(kind, value, at, issues)) out[key] = value;
+        break;
+      case 'regex[]':
+      case 'selector[]': {
+        if (!Array.isArray(value)) {
+          issues.push(`${at}: expected array, got ${typeof value}`);
+          break;
+        }
+        const one = kind === 'regex[]' ? 'regex' : 'selector';
+        out[key] = value.filter((v, i) => checkOne(one, v, `${at}[${i}]`, issues));
+        break;
+      }
+      case 'category_regex[]': {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          issues.push(`${at}: expected an object of category → regex[]`);
+          break;
+        }
+        const byCategory: Record<string, string[]> = {};
+        for (const [cat, patterns] of Object.entries(value)) {
+          if (!isCategory(cat)) {
+            issues.push(`${at}.${cat}: unknown category (ignored)`);
+          } else if (!Array.isArray(patterns)) {
+            issues.push(`${at}.${cat}: expected array, got ${typeof patterns}`);
+          } else {
+            byCategory[cat] = patterns.filter((v, i) => checkOne('regex', v, `${at}.${cat}[${i}]`, issues));
+          }
+        }
+        out[key] = byCategory;
+        break;
+      }
+      case 'rules': {
+        const nested = validateRules(value, at);
+        issues.push(...nested.issues);
+        out[key] = nested.rules;
+        break;
+      }
+    }
+  }
+
+  return { rules: out as Rules, issues };
+}
+
+// sites.discovery: the pattern and selector are compiled mid-crawl, so a bad one
+// is dropped here (discovery falls back to its default) and reported on the run.
+export function validateDiscovery(raw: DiscoveryCfg | null | undefined, path = 'discovery'): { discovery: DiscoveryCfg; issues: string[] } {
+  const issues: string[] = [];
+  const discovery: DiscoveryCfg = { ...raw };
+  if (discovery.sitemap_include != null && !checkOne('regex', discovery.sitemap_include, `${path}.sitemap_include`, issues)) {
+    delete discovery.sitemap_include;
+  }
+  if (discovery.next_selector != null && !checkOne('selector', discovery.next_selector, `${path}.next_selector`, issues)) {
+    delete discovery.next_selector;
+  }
+  return { discovery, issues };
+}
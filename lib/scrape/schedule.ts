@@ -0,0 +1,42 @@
+// lib/scrape/schedule.ts
+// How often things are re-crawled. Every site gets a full crawl per
+// `sites.refresh_interval_minutes` (default by tier: premium-only sites several
+// times a day); between those, competitions that are selling fast or about to
+// close get their detail page alone re-fetched.
+import type { SiteCfg, SiteTier } from './types';
+
+const MINUTE = 60 * 1000;
+
+export const TIER_INTERVAL_MIN: Record<SiteTier, number> = {
+  free: 24 * 60,
+  both: 24 * 60,
+  premium: 4 * 60,
+};
+export const MIN_INTERVAL_MIN = 10; // the cron runs every 10 minutes
+
+// Fast lane (see competitions_due_refresh in 024_refresh_schedules.sql)
+export const FAST_REFRESH_MIN = 60;       // re-fetch at most hourly
+export const FAST_SELL_PCT_PER_DAY = 10;  // ≥10% of the tickets sold in the last day
+export const ENDING_WITHIN_HOURS = 24;
+export const FAST_REFRESH_LIMIT = 200;    // URLs queued per dispatch
+
+export const refreshIntervalMs = (site: Pick<SiteCfg, 'tier' | 'refresh_interval_minutes'>): number =>
+  Math.max(MIN_INTERVAL_MIN, site.refresh_interval_minutes ?? TIER_INTERVAL_MIN[site.tier] ?? TIER_INTERVAL_MIN.both) * MINUTE;
+
+// `lastFullCrawlAt`: when the site's last full job was queued (null = never)
+export const isSiteDue = (
+  site: Pick<SiteCfg, 'tier' | 'refresh_interval_minutes'>,
+  lastFullCrawlAt: string | null,
+  now = Date.now(),
+): boolean => !lastFullCrawlAt || now - new Date(lastFullCrawlAt).getTime() >= refreshIntervalMs(site);
+
+// "just now", "12 min ago", "3 h ago", "2 days ago"
+export const formatAge = (iso: string | null | undefined, now = Date.now()): string => {
+  if (!iso) return 'never';
+  const mins = Math.floor((now - new Date(iso).getTime()) / MINUTE);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins} min ago`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+};
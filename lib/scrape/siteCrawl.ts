@@ -0,0 +1,496 @@
+// lib/scrape/siteCrawl.ts
+// One site's crawl in three steps — discover the catalogue, crawl detail pages,
+// commit the parsed rows — so the inline scrape (POST /api/scrape) can run them
+// back to back and a queued job (lib/scrape/jobs.ts) can spread them over
+// several invocations. Metrics accumulate on the crawl object.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AdapterRules, ApiRow, CompetitionStatus, DbRow, Rules, SiteCfg } from './types';
+import { computeRemaining } from './utils';
+import { DEFAULT_USER_AGENT, fetchConditional, fetchHtml, isClientError, isNotFound } from './fetch';
+import { RobotsBlockedError, type CrawlPolicy } from './robots';
+import { discoverCatalogue } from './discovery';
+import { writeSnapshots } from './snapshots';
+import { instantWinCounts, writeInstantWins } from './instantWins';
+import { expectedValue } from './odds';
+import { BASE_CURRENCY, toGbp } from './currency';
+import { DEFAULT_TIMEZONE } from './dates';
+import { canonicalUrl } from './url';
+import { detectAnomalies, loadStoredValues, writeQuarantine, type AnomalyKind, type HeldRow } from './anomalies';
+import { countStatus, fieldCoverage, sampleUrls, type RunMetrics, type StatusCounts } from './metrics';
+import { prizeKey } from './grouping';
+import { writeDrawResults } from './winners';
+import { isClosedStatus, nextStatus } from './lifecycle';
+import { contentHash, loadPageCache, savePageCache, type PageCacheEntry } from './pageCache';
+import { validateRules, type RulesValidation } from './rules';
+import { StartDeadlineError, type HostLimiter } from './crawl';
+import { getAdapter } from './adapters';
+
+// ---------- loaders ----------
+const SITE_COLUMNS = 'id,name,list_url,link_selector,adapter_key,rate_limit_ms,tier,enabled,discovery,timezone,user_agent,refresh_interval_minutes,winners_url';
+
+export async function loadSites(supabase: SupabaseClient, userTier: 'free' | 'premium' | 'both') {
+  const { data, error } = await supabase
+    .from('sites')
+    .select(SITE_COLUMNS)
+    .eq('enabled', true);
+  if (error) throw error;
+
+  let rows = (data ?? []) as SiteCfg[];
+  if (!rows.length) {
+    const retry = await supabase.from('sites').select(SITE_COLUMNS);
+    if (retry.error) throw retry.error;
+    rows = (retry.data ?? []) as SiteCfg[];
+    console.warn('[scrape] No sites with enabled=true; falling back to all sites. Count:', rows.length);
+  }
+
+  const filtered = rows.filter((s) =>
+    userTier === 'both' ? true : (s.tier === 'both' || s.tier === userTier)
+  );
+
+  console.log('[scrape] sites loaded:', {
+    total: rows.length,
+    filtered: filtered.length,
+    names: filtered.map((s) => s.name),
+  });
+
+  return filtered;
+}
+
+// every site, disabled ones included: an admin may re-crawl a site that was switched off
+export async function loadAllSites(supabase: SupabaseClient): Promise<SiteCfg[]> {
+  const { data, error } = await supabase.from('sites').select(SITE_COLUMNS).order('name');
+  if (error) throw error;
+  return (data ?? []) as SiteCfg[];
+}
+
+export async function loadSitesById(supabase: SupabaseClient, ids: string[]): Promise<Map<string, SiteCfg>> {
+  if (!ids.length) return new Map();
+  const { data, error } = await supabase.from('sites').select(SITE_COLUMNS).in('id', ids);
+  if (error) throw error;
+  return new Map(((data ?? []) as SiteCfg[]).map((s) => [s.id, s]));
+}
+
+// adapter rules, validated on load
+export async function loadRules(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('adapter_rules')
+    .select('adapter_key,rules');
+  if (error) throw error;
+
+  const rulesMap = new Map<string, RulesValidation>();
+  (data ?? []).forEach((r: AdapterRules) => {
+    const v = validateRules(r.rules);
+    if (v.issues.length) console.warn(`[scrape] adapter_rules "${r.adapter_key}":`, v.issues);
+    rulesMap.set(r.adapter_key, v);
+  });
+  return rulesMap;
+}
+
+// Unchanged pages skip the upsert; still record that they were looked at, so the
+// refresh schedule and "last refreshed" don't go stale
+const CHECKED_CHUNK = 200;
+async function markChecked(supabase: SupabaseClient, urls: string[]): Promise<void> {
+  const checked_at = new Date().toISOString();
+  for (let i = 0; i < urls.length; i += CHECKED_CHUNK) {
+    const { error } = await supabase
+      .from('competitions')
+      .update({ checked_at })
+      .in('url', urls.slice(i, i + CHECKED_CHUNK));
+    if (error) console.error('[scrape] checked_at update error:', error.message);
+  }
+}
+
+// Gap between requests to the site's host: rate_limit_ms or Crawl-delay, whichever is longer
+export async function hostSpacingMs(policy: CrawlPolicy, site: SiteCfg): Promise<number> {
+  const verdict = await policy.check(site.list_url, site.user_agent || DEFAULT_USER_AGENT);
+  return Math.max(site.rate_limit_ms ?? 0, verdict.crawlDelayMs);
+}
+
+// ---------- scrape_runs ----------
+export async function startRun(supabase: SupabaseClient, siteId: string, warnings: string[]): Promise<number | undefined> {
+  const { data } = await supabase
+    .from('scrape_runs')
+    .insert({ site_id: siteId, status: 'started', warnings: warnings.length ? warnings : null })
+    .select('id')
+    .single();
+  return data?.id as number | undefined;
+}
+
+export type RunReport = Partial<RunMetrics> & {
+  links_found?: number;
+  links_processed?: number;
+  pages_crawled?: number;
+  error?: string;
+};
+
+// an ok run also moves sites.last_success_at
+export async function finishRun(
+  supabase: SupabaseClient,
+  runId: number | undefined,
+  siteId: string,
+  status: 'ok' | 'error',
+  report: RunReport,
+): Promise<void> {
+  const finished_at = new Date().toISOString();
+  if (runId) {
+    await supabase
+      .from('scrape_runs')
+      .update({ status, finished_at, ...report })
+      .eq('id', runId);
+  }
+  if (status === 'ok') await supabase.from('sites').update({ last_success_at: finished_at }).eq('id', siteId);
+}
+
+// ---------- the crawl ----------
+export type CrawlEnv = {
+  supabase: SupabaseClient;
+  rules?: Rules;
+  limiter: HostLimiter;
+  policy: CrawlPolicy; // robots.txt, shared across sites on one host
+  force: boolean;      // ignore page_cache: refetch and re-parse everything
+  query?: string;      // inline search: keep only rows whose prize matches
+  dryRun?: boolean;    // parse and report, write nothing (pair with force)
+  startBy?: number;    // epoch ms: no fetch (or retry) starts after this; detail pages come back 'deferred'
+};
+
+export type DetailOutcome =
+  | 'ok' | 'unchanged' | 'skipped' | 'blocked' | 'not_found' | 'parse_failed' | 'fetch_failed'
+  | 'deferred'; // not started before env.startBy
+
+export type Discovery = {
+  links: string[];      // detail pages to crawl (max_links applied)
+  feedRows: ApiRow[];   // complete rows straight from the feed
+  linksFound: number;
+  pages: number;
+};
+
+// What a dry run would have written, per competition
+export type PreviewRow = {
+  url: string;
+  prize: string;
+  entry_fee: number | null;
+  total_tickets: number | null;
+  tickets_sold: number | null;
+  ends_at: string | null;
+  status: CompetitionStatus | null;
+  change: 'new' | 'update' | 'held';
+  anomalies?: AnomalyKind[];
+};
+
+export type SiteCrawl = {
+  discover(): Promise<Discovery>;
+  /** Queue a parsed row for the next commit; false when the search query filtered it out. */
+  ingest(parsed: ApiRow): boolean;
+  crawlDetails(urls: string[]): Promise<DetailOutcome[]>;
+  /** Upsert what was ingested since the last commit; implausible changes are quarantined instead. */
+  commit(): Promise<{ error: string | null }>;
+  /** Read the winners page (if the site has one) and store its draw results; never throws. */
+  crawlWinners(): Promise<void>;
+  /** Rows parsed and not held back */
+  rows(): ApiRow[];
+  /** Dry runs: what each commit would have written */
+  preview(): PreviewRow[];
+  metrics(): RunMetrics;
+};
+
+export function createSiteCrawl(env: CrawlEnv, site: SiteCfg, runId?: number): SiteCrawl {
+  const { supabase, rules, limiter, policy, force, query = '', dryRun = false, startBy } = env;
+  const adapter = getAdapter(site.adapter_key);
+  const userAgent = site.user_agent || DEFAULT_USER_AGENT;
+
+  const startedAt = Date.now();
+  const httpStatus: StatusCounts = {};
+  const blockedUrls: string[] = [];
+  const parseFailedUrls: string[] = [];
+  const tally: Partial<Record<DetailOutcome, number>> = {};
+  const apiRows: ApiRow[] = [];
+  const heldUrls = new Set<string>();
+  let pagesFetched = 0;
+  let itemsIngested = 0;
+  let drawsFound = 0;
+  let drawsMatched = 0;
+
+  // since the last commit
+  let pendingApi: ApiRow[] = [];
+  let pendingDb: DbRow[] = [];
+  let cacheUpdates: PageCacheEntry[] = [];
+  let unchangedUrls: string[] = []; // confirmed without a write: only checked_at moves
+  const previewRows: PreviewRow[] = [];
+
+  const fetchOpts = { userAgent, onStatus: (s: number | 'network') => countStatus(httpStatus, s), deadline: startBy };
+  // robots.txt before every request; hosts are spaced by rate_limit_ms or Crawl-delay, whichever is longer
+  const politely = async <T>(url: string, task: () => Promise<T>, deadline?: number): Promise<T> => {
+    const verdict = await policy.check(url, userAgent);
+    if (!verdict.allowed) {
+      blockedUrls.push(url);
+      throw new RobotsBlockedError(url);
+    }
+    return limiter.run(url, Math.max(site.rate_limit_ms ?? 0, verdict.crawlDelayMs), task, deadline);
+  };
+  // discovery, feeds and the winners page stop at startBy too
+  const fetchPage = (url: string) => politely(url, () => fetchHtml(url, fetchOpts), startBy);
+
+  const discover = async (): Promise<Discovery> => {
+    // structured feed when the adapter has one and it's reachable; HTML otherwise
+    const feed = adapter.loadFeed ? await adapter.loadFeed(site, fetchPage) : null;
+    const isCompetition = (u: string) => {
+      try { return adapter.isCompetitionUrl(new URL(u)); } catch { return false; }
+    };
+    const feedRows = feed
+      ? feed.rows.filter((r) => isCompetition(r.url)).map((r) => ({ ...r, url: canonicalUrl(r.url) }))
+      : [];
+    const discovered = feed
+      ? {
+          links: [...new Set(feed.incomplete.filter(isCompetition).map(canonicalUrl))],
+          pages: feed.pages,
+          sources: { feed: feedRows.length, feed_incomplete: feed.incomplete.length },
+        }
+      : await discoverCatalogue(site, adapter, fetchPage);
+    const maxLinks = site.discovery?.max_links;
+    const links = maxLinks != null ? discovered.links.slice(0, maxLinks) : discovered.links;
+    console.log(`[scrape] ${site.name}: ${discovered.links.length} links from ${discovered.pages} pages`, discovered.sources);
+    return { links, feedRows, linksFound: discovered.links.length + feedRows.length, pages: discovered.pages };
+  };
+
+  const ingest = (parsed: ApiRow): boolean => {
+    if (query && !parsed.prize.toLowerCase().includes(query.toLowerCase())) return false;
+
+    const scraped_at = new Date().toISOString();
+
+    const apiRow: ApiRow = {
+      ...parsed,
+      url: canonicalUrl(parsed.url),
+      scraped_at,
+      odds: parsed.total_tickets ?? null,
+    };
+    if (apiRow.remaining_tickets == null) {
+      apiRow.remaining_tickets = computeRemaining(apiRow.total_tickets, apiRow.tickets_sold) ?? undefined;
+    }
+    apiRows.push(apiRow);
+    pendingApi.push(apiRow);
+
+    const instantWins = instantWinCounts(apiRow.instant_wins);
+    pendingDb.push({
+      prize: apiRow.prize,
+      site_name: apiRow.site_name,
+      entry_fee: apiRow.entry_fee,
+      currency: apiRow.currency ?? BASE_CURRENCY,
+      entry_fee_gbp: toGbp(apiRow.entry_fee, apiRow.currency),
+      total_tickets: apiRow.total_tickets,
+      tickets_sold: apiRow.tickets_sold,
+      url: apiRow.url,
+      scraped_at: apiRow.scraped_at,
+      checked_at: apiRow.scraped_at,
+      is_closed: apiRow.is_closed ?? false,
+      status: apiRow.status ?? (apiRow.is_closed ? 'sold_out' : 'open'),
+      status_reason: apiRow.status_reason ?? null,
+      ends_at: apiRow.ends_at ?? null,
+      provenance: apiRow.provenance ?? null,
+      instant_wins_total: instantWins.total,
+      instant_wins_remaining: instantWins.remaining,
+      prize_value: apiRow.prize_value ?? null,
+      cash_alternative: apiRow.cash_alternative ?? null,
+      ...expectedValue(apiRow),
+      prize_key: prizeKey(apiRow.prize),
+      categories: apiRow.categories ?? [],
+      has_free_entry: apiRow.free_entry?.available ?? null,
+      free_entry_address: apiRow.free_entry?.address ?? null,
+      free_entry_url: apiRow.free_entry?.instructions_url ?? null,
+      skill_question: apiRow.skill_question?.question ?? null,
+      skill_answers: apiRow.skill_question?.options ?? null,
+    });
+    return true;
+  };
+
+  // page_cache entries are written back once the competitions upsert succeeds
+  const hashSalt = `${adapter.key}:${JSON.stringify(rules ?? {})}`;
+
+  const crawlDetail = async (url: string, cached: PageCacheEntry | undefined): Promise<DetailOutcome> => {
+    let detailHtml: string;
+    let finalUrl: string;
+    let entry: PageCacheEntry;
+    try {
+      const res = await politely(url, () => fetchConditional(url, cached, fetchOpts), startBy);
+      if (res.status === 'not_modified') {
+        if (cached) cacheUpdates.push(cached);
+        unchangedUrls.push(url);
+        return 'unchanged';
+      }
+      pagesFetched++;
+      detailHtml = res.html;
+      finalUrl = res.final_url;
+      entry = { url, etag: res.etag, last_modified: res.last_modified, content_hash: contentHash(detailHtml, hashSalt) };
+      if (cached?.content_hash === entry.content_hash) {
+        cacheUpdates.push(entry);
+        unchangedUrls.push(url);
+        return 'unchanged';
+      }
+    } catch (e: unknown) {
+      if (e instanceof StartDeadlineError) return 'deferred';
+      if (e instanceof RobotsBlockedError) return 'blocked';
+      // If the product URL 404s it was taken down (unless it already reached a final status)
+      if (isNotFound(e)) {
+        if (dryRun) return 'not_found';
+        try {
+          await supabase
+            .from('competitions')
+            .update({ status: 'removed', status_reason: 'detail page returned 404' })
+            .eq('url', url)
+            .not('status', 'in', '(drawn,cancelled,removed)');
+        } catch { /* best-effort */ }
+        return 'not_found';
+      }
+      console.warn(`[scrape] fetch error for ${url}:`, e instanceof Error ? e.message : e);
+      return isClientError(e) ? 'skipped' : 'fetch_failed';
+    }
+
+    try {
+      const parsed = adapter.parseDetail(detailHtml, url, site.name, rules, {
+        timezone: site.timezone ?? DEFAULT_TIMEZONE,
+        now: new Date(),
+        finalUrl,
+      });
+      if (!parsed) {
+        parseFailedUrls.push(url);
+        return 'parse_failed';
+      }
+      // rows the query filtered out were never stored, so don't mark them seen
+      if (ingest(parsed)) cacheUpdates.push(entry);
+      return 'ok';
+    } catch (e: unknown) {
+      console.warn(`[scrape] parse error for ${url}:`, e instanceof Error ? e.message : e);
+      parseFailedUrls.push(url);
+      return 'parse_failed';
+    }
+  };
+
+  const crawlDetails = async (urls: string[]): Promise<DetailOutcome[]> => {
+    const cache = force ? new Map<string, PageCacheEntry>() : await loadPageCache(supabase, urls);
+    const outcomes = await Promise.all(urls.map((url) => crawlDetail(url, cache.get(url))));
+    for (const o of outcomes) tally[o] = (tally[o] ?? 0) + 1;
+    console.log(`[scrape] ${site.name}: rows parsed`, pendingDb.length, tally);
+    return outcomes;
+  };
+
+  const commit = async (): Promise<{ error: string | null }> => {
+    const dbRows = pendingDb;
+    const batchApi = pendingApi;
+    const batchCache = cacheUpdates;
+    const batchUnchanged = unchangedUrls;
+    pendingDb = [];
+    pendingApi = [];
+    cacheUpdates = [];
+    unchangedUrls = [];
+
+    // implausible changes against the stored values are held for review, not written
+    const stored = await loadStoredValues(supabase, dbRows.map((r) => r.url));
+    const winsByUrl = new Map(batchApi.map((r) => [r.url, r.instant_wins ?? []]));
+    const held: HeldRow[] = [];
+    const accepted = dbRows.filter((row) => {
+      const previous = stored.get(row.url);
+      const anomalies = previous ? detectAnomalies(previous, row) : [];
+      if (previous && row.status) {
+        const status = nextStatus(previous.status, row.status);
+        if (status !== row.status) {
+          row.status = status;
+          row.status_reason = previous.status_reason;
+          row.is_closed = isClosedStatus(status);
+        }
+      }
+      if (!previous || !anomalies.length) return true;
+      held.push({ row, previous, anomalies, instant_wins: winsByUrl.get(row.url) ?? [] });
+      heldUrls.add(row.url);
+      return false;
+    });
+    if (dryRun) {
+      const anomaliesByUrl = new Map(held.map((h) => [h.row.url, h.anomalies.map((a) => a.kind)]));
+      previewRows.push(...dbRows.map((row): PreviewRow => ({
+        url: row.url,
+        prize: row.prize,
+        entry_fee: row.entry_fee,
+        total_tickets: row.total_tickets,
+        tickets_sold: row.tickets_sold,
+        ends_at: row.ends_at ?? null,
+        status: row.status ?? null,
+        change: anomaliesByUrl.has(row.url) ? 'held' : stored.has(row.url) ? 'update' : 'new',
+        ...(anomaliesByUrl.has(row.url) ? { anomalies: anomaliesByUrl.get(row.url) } : {}),
+      })));
+      return { error: null };
+    }
+
+    const quarantined = await writeQuarantine(supabase, held, runId);
+    if (held.length) {
+      console.warn(`[scrape] ${site.name}: ${held.length} row(s) held back (${quarantined} new for review)`,
+        held.map((h) => `${h.row.url}: ${h.anomalies.map((a) => a.kind).join(',')}`));
+    }
+
+    const { data: upserted, error } = accepted.length
+      ? await supabase
+          .from('competitions')
+          .upsert(accepted, { onConflict: 'url', ignoreDuplicates: false })
+          .select('id,url')
+      : { data: [], error: null };
+    if (error) {
+      console.error(`[scrape] upsert error for ${site.name}:`, error.message);
+      return { error: error.message };
+    }
+    if (upserted?.length) {
+      await writeSnapshots(supabase, accepted, upserted);
+      await writeInstantWins(supabase, batchApi, upserted);
+    }
+    // held pages are re-parsed next run, so a fixed site clears its own quarantine
+    await savePageCache(supabase, batchCache.filter((e) => !heldUrls.has(e.url)));
+    await markChecked(supabase, batchUnchanged);
+    itemsIngested += accepted.length;
+    return { error: null };
+  };
+
+  const crawlWinners = async (): Promise<void> => {
+    if (!site.winners_url) return;
+    try {
+      const html = await fetchPage(site.winners_url);
+      pagesFetched++;
+      const results = adapter.parseWinners(html, site.winners_url, rules, {
+        timezone: site.timezone ?? DEFAULT_TIMEZONE,
+        now: new Date(),
+      });
+      const matched = dryRun ? 0 : await writeDrawResults(supabase, site, site.winners_url, results);
+      drawsFound += results.length;
+      drawsMatched += matched;
+      console.log(`[scrape] ${site.name}: ${results.length} draw results, ${matched} matched`);
+    } catch (e: unknown) {
+      // results are a bonus: a broken winners page never fails the crawl
+      if (!(e instanceof RobotsBlockedError)) {
+        console.warn(`[scrape] ${site.name}: winners page failed:`, e instanceof Error ? e.message : e);
+      }
+    }
+  };
+
+  const metrics = (): RunMetrics => ({
+    duration_ms: Date.now() - startedAt,
+    http_status: httpStatus,
+    pages_fetched: pagesFetched,
+    pages_unchanged: tally.unchanged ?? 0,
+    pages_parsed: (tally.ok ?? 0) + (tally.parse_failed ?? 0),
+    parse_failures: parseFailedUrls.length,
+    parse_failed_urls: sampleUrls(parseFailedUrls),
+    field_coverage: fieldCoverage(apiRows),
+    items_ingested: itemsIngested,
+    rows_held: heldUrls.size,
+    links_blocked: blockedUrls.length,
+    blocked_urls: sampleUrls(blockedUrls),
+    draws_found: drawsFound,
+    draws_matched: drawsMatched,
+  });
+
+  return {
+    discover,
+    ingest,
+    crawlDetails,
+    commit,
+    crawlWinners,
+    rows: () => apiRows.filter((r) => !heldUrls.has(r.url)),
+    preview: () => previewRows,
+    metrics,
+  };
+}
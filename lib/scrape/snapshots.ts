@@ -0,0 +1,46 @@
+// lib/scrape/snapshots.ts
+// competition_snapshots: one row per competition per scrape (see 009_competition_snapshots.sql).
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CompetitionStatus, DbRow } from './types';
+
+export type SnapshotRow = {
+  competition_id: string;
+  scraped_at: string;
+  entry_fee: number | null;
+  total_tickets: number | null;
+  tickets_sold: number | null;
+  is_closed: boolean | null;
+  status: CompetitionStatus | null;
+};
+
+// `upserted` is the id/url pairs returned by the competitions upsert
+export async function writeSnapshots(
+  supabase: SupabaseClient,
+  rows: DbRow[],
+  upserted: { id: string; url: string }[],
+): Promise<number> {
+  const idByUrl = new Map(upserted.map((r) => [r.url, r.id]));
+  const snapshots: SnapshotRow[] = [];
+  for (const r of rows) {
+    const competition_id = idByUrl.get(r.url);
+    if (!competition_id) continue;
+    snapshots.push({
+      competition_id,
+      scraped_at: r.scraped_at ?? new Date().toISOString(),
+      entry_fee: r.entry_fee,
+      total_tickets: r.total_tickets,
+      tickets_sold: r.tickets_sold,
+      is_closed: r.is_closed ?? null,
+      status: r.status ?? null,
+    });
+  }
+  if (!snapshots.length) return 0;
+
+  const { error } = await supabase.from('competition_snapshots').insert(snapshots);
+  if (error) {
+    // history is best-effort: never fail the run over it
+    console.error('[scrape] snapshot insert error:', error.message);
+    return 0;
+  }
+  return snapshots.length;
+}
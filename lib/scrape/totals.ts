@@ -0,0 +1,177 @@
+// lib/scrape/totals.ts
+// Shared totals extraction (total / sold / remaining). Site-specific variants
+// live in their adapter modules and fall back to these.
+import type { CheerioAPI } from 'cheerio';
+import type { FieldSource, Rules, Totals } from './types';
+import { readSoldTotalFraction, toInt } from './utils';
+
+// Built-in patterns, used when adapter_rules doesn't override the key
+export const DEFAULT_PATTERNS = {
+  total_patterns: [
+    'Number of Tickets\\s*([\\d,]+)',
+    'Max Tickets\\s*([\\d,]+)',
+    'Maximum Tickets\\s*([\\d,]+)',
+    'Tickets Available\\s*([\\d,]+)\\s*/\\s*([\\d,]+)',
+    '\\b([\\d,]+)\\s*entries\\b',
+    '\\btotal\\s*(?:entries|tickets)\\s*:?\\s*([\\d,]+)',
+  ],
+  sold_patterns: [
+    '\\bSold\\s*:\\s*([\\d,]+)\\b',
+    '\\b([\\d,]+)\\s*sold\\b',
+    'Tickets\\s*sold\\s*:?\\s*([\\d,]+)',
+  ],
+  remaining_patterns: [
+    '\\b([\\d,]+)\\s*(?:tickets?|entries?)\\s*remaining\\b',
+    '\\bremaining\\s*(?:tickets?|entries?)?:?\\s*([\\d,]+)\\b',
+    'Tickets\\s*remaining\\s*:?\\s*([\\d,]+)',
+  ],
+  remaining_patterns_script: [
+    '"remaining"\\s*:\\s*"*([\\d,]+)"*',
+    '"tickets_remaining"\\s*:\\s*"*([\\d,]+)"*',
+    'data-remaining\\s*=\\s*"([\\d,]+)"',
+    'data-entries-remaining\\s*=\\s*"([\\d,]+)"',
+  ],
+  sold_patterns_script: [
+    '"sold"\\s*:\\s*"*([\\d,]+)"*',
+    'data-sold\\s*=\\s*"([\\d,]+)"',
+  ],
+  max_patterns_script: [
+    '"max(?:imum)?_?(?:tickets|entries)"\\s*:\\s*"*([\\d,]+)"*',
+    'data-max(?:-)?(?:tickets|entries)\\s*=\\s*"([\\d,]+)"',
+  ],
+};
+
+export const extractTotalsFromSelectors = ($: CheerioAPI, rules?: Rules): Totals | null => {
+  if (!rules) return null;
+
+  const read = (sel?: string): number | null => {
+    if (!sel) return null;
+    const node = $(sel).first();
+    if (!node.length) return null;
+    return toInt(node.text());
+  };
+
+  const total = read(rules.total_selector);
+  const sold = read(rules.sold_selector);
+  const remaining = read(rules.remaining_selector);
+
+  if (total != null || sold != null || remaining != null) {
+    let t = total, s = sold, r = remaining;
+    if (t == null && s != null && r != null) t = s + r;
+    if (s == null && t != null && r != null) s = t - r;
+    if (r == null && t != null && s != null) r = t - s;
+    if (t != null && s != null && s > t) s = null;
+    return { total: t ?? null, sold: s ?? null, remaining: r ?? undefined, source: 'rules_selector' };
+  }
+
+  return null;
+};
+
+export const extractTotalsGeneric = ($: CheerioAPI, rules?: Rules): Totals => {
+  const selRes = extractTotalsFromSelectors($, rules);
+  if (selRes) return selRes;
+
+  const rawBody = $('body').text();
+  const bodyText = rawBody.replace(/\u00A0|\u202F/g, ' ');
+
+  const frac = readSoldTotalFraction(bodyText);
+  let total: number | null = frac?.total ?? null;
+  let sold: number | null = frac?.sold ?? null;
+  let remaining: number | null = null;
+  // provenance of `total` (what odds are computed from)
+  let source: FieldSource = total != null ? 'text' : 'none';
+
+  const totalPats = rules?.total_patterns ?? DEFAULT_PATTERNS.total_patterns;
+  const soldPats = rules?.sold_patterns ?? DEFAULT_PATTERNS.sold_patterns;
+  const remPats = rules?.remaining_patterns ?? DEFAULT_PATTERNS.remaining_patterns;
+
+  if (remaining == null) {
+    for (const p of remPats) {
+      const re = new RegExp(p, 'i');
+      const m = bodyText.match(re);
+      if (m?.[1]) { remaining = toInt(m[1]); break; }
+    }
+  }
+
+  if (total == null) {
+    for (const p of totalPats) {
+      const re = new RegExp(p, 'i');
+      const m = bodyText.match(re);
+      if (m) { total = toInt(m[2] ?? m[1]); source = 'text'; break; }
+    }
+  }
+
+  if (sold == null) {
+    for (const p of soldPats) {
+      const re = new RegExp(p, 'i');
+      const m = bodyText.match(re);
+      if (m) { sold = toInt(m[1]); break; }
+    }
+  }
+
+  if (total == null || remaining == null || sold == null) {
+    const scr = scanScriptsAndAttrsForTotals($, rules);
+    if (remaining == null && scr.remaining != null) remaining = scr.remaining;
+    if (total == null && scr.total != null) { total = scr.total; source = 'script'; }
+    if (sold == null && scr.sold != null) sold = scr.sold;
+  }
+
+  if (total == null && sold != null && remaining != null) { total = sold + remaining; source = 'derived'; }
+  if (sold == null && total != null && remaining != null) sold = total - remaining;
+  if (remaining == null && total != null && sold != null) remaining = total - sold;
+
+  if (total != null && sold != null && sold > total) sold = null;
+
+  return { total, sold, remaining: remaining ?? undefined, source };
+};
+
+export const scanScriptsAndAttrsForTotals = ($: CheerioAPI, rules?: Rules): Totals => {
+  const scripts = $('script').map((_, el) => $(el).contents().text()).get().join('\n');
+  const html = $.root().html() ?? '';
+
+  const remPats = rules?.remaining_patterns_script ?? DEFAULT_PATTERNS.remaining_patterns_script;
+  const soldPats = rules?.sold_patterns_script ?? DEFAULT_PATTERNS.sold_patterns_script;
+  const maxPats = rules?.max_patterns_script ?? DEFAULT_PATTERNS.max_patterns_script;
+
+  const firstMatch = (src: string, pats: string[]) => {
+    for (const p of pats) {
+      const re = new RegExp(p, 'i');
+      const m = src.match(re);
+      if (m?.[1]) return toInt(m[1]);
+    }
+    return null;
+  };
+
+  const remaining = firstMatch(scripts, remPats) ?? firstMatch(html, remPats);
+  const sold = firstMatch(scripts, soldPats) ?? firstMatch(html, soldPats);
+  const max = firstMatch(scripts, maxPats) ?? firstMatch(html, maxPats);
+
+  let total = max;
+  if (total == null && sold != null && remaining != null) total = sold + remaining;
+
+  return { total, sold, remaining: remaining ?? undefined, source: total != null ? 'script' : 'none' };
+};
+
+export type PatternMatch = { key: keyof typeof DEFAULT_PATTERNS; pattern: string; scope: 'text' | 'script' | 'html'; value: number | null };
+
+// Every totals pattern (rules or built-in) that matches the page, for previews.
+// The extractors stop at the first hit; this lists all of them.
+export const explainTotalsPatterns = ($: CheerioAPI, rules?: Rules): PatternMatch[] => {
+  const text = $('body').text().replace(/\u00A0|\u202F/g, ' ');
+  const scripts = $('script').map((_, el) => $(el).contents().text()).get().join('\n');
+  const html = $.root().html() ?? '';
+
+  const out: PatternMatch[] = [];
+  (Object.keys(DEFAULT_PATTERNS) as (keyof typeof DEFAULT_PATTERNS)[]).forEach((key) => {
+    const sources: [PatternMatch['scope'], string][] = key.endsWith('_script')
+      ? [['script', scripts], ['html', html]]
+      : [['text', text]];
+    for (const pattern of rules?.[key] ?? DEFAULT_PATTERNS[key]) {
+      for (const [scope, src] of sources) {
+        const m = src.match(new RegExp(pattern, 'i'));
+        if (m) out.push({ key, pattern, scope, value: toInt(m[2] ?? m[1]) });
+      }
+    }
+  });
+  return out;
+};
@@ -0,0 +1,212 @@
+// lib/scrape/types.ts
+// Shared shapes for the scraper (route, adapters, parsers).
+
+export type ApiRow = {
+  prize: string;
+  site_name: string;
+  entry_fee: number | null;
+  total_tickets: number | null;
+  tickets_sold: number | null;
+  remaining_tickets?: number | null; // computed/returned
+  odds?: number | null;              // computed/returned only
+  url: string;
+  scraped_at?: string;
+  ends_at?: string | null;
+  is_closed?: boolean;               // status other than open
+  status?: CompetitionStatus;        // decided by the adapter at parse time
+  status_reason?: string | null;     // which signal decided it
+  provenance?: Provenance;
+  instant_wins?: InstantWin[];       // only set when the page lists any
+  prize_value?: number | null;       // stated RRP / "worth"
+  cash_alternative?: number | null;
+  currency?: string | null;          // ISO code of entry_fee / prize_value (default GBP)
+  categories?: Category[];           // primary first
+  free_entry?: FreeEntry;            // unset when the source can't tell (store API)
+  skill_question?: SkillQuestion | null;
+};
+
+// One line of an instant-win table: a single ticket-number prize (quantity 1)
+// or a grouped "20 x £50 cash" row
+export type InstantWin = {
+  prize: string;
+  value: number | null;
+  quantity: number;
+  claimed: number;
+};
+
+export type FreeEntry = {
+  available: boolean;             // a free (postal) entry route is offered
+  address: string | null;         // where postal entries go, when printed on the page
+  instructions_url: string | null; // the site's free-entry page
+};
+
+export type SkillQuestion = { question: string; options: string[] };
+
+// One announcement on a site's winners / draw-results page (lib/scrape/winners.ts)
+export type DrawResult = {
+  prize: string;
+  competition_url: string | null; // the card's link back to the competition, if any
+  winning_ticket: string | null;  // as published, e.g. "00451"
+  winner: string | null;          // name or initials as published
+  drawn_at: string | null;
+  live_draw_url: string | null;   // recording of the live draw
+};
+
+// Prize taxonomy (lib/scrape/categories.ts); a competition can be in several
+export type Category = 'cars' | 'motorbikes' | 'cash' | 'watches' | 'tech' | 'holidays' | 'instant-win';
+
+export type DbRow = {
+  prize: string;
+  site_name: string;
+  entry_fee: number | null;
+  total_tickets: number | null;
+  tickets_sold: number | null;
+  url: string;
+  scraped_at?: string;
+  checked_at?: string; // last fetch, changed or not (031_competition_checked_at.sql)
+  is_closed?: boolean | null;
+  status?: CompetitionStatus;
+  status_reason?: string | null;
+  ends_at?: string | null;
+  provenance?: Provenance | null;
+  instant_wins_total?: number | null;
+  instant_wins_remaining?: number | null;
+  prize_value?: number | null;
+  cash_alternative?: number | null;
+  ev_per_ticket?: number | null;
+  ev_per_pound?: number | null;
+  currency?: string;
+  entry_fee_gbp?: number | null;
+  prize_key?: string | null; // cross-site grouping key (lib/scrape/grouping.ts)
+  categories?: Category[];
+  has_free_entry?: boolean | null; // null = not known (feed rows)
+  free_entry_address?: string | null;
+  free_entry_url?: string | null;
+  skill_question?: string | null;
+  skill_answers?: string[] | null;
+};
+
+// adapter_rules.rules, schema v1 — validated on load (lib/scrape/rules.ts).
+// Patterns are regex source strings (matched case-insensitively); selectors are CSS.
+export type AdapterRulesV1 = {
+  version?: 1;
+
+  prize_selectors?: string[];
+
+  price_selectors?: string[];
+  price_anchor_text?: string;       // regex: label the entry price follows, e.g. "Entry price"
+  price_min?: number | null;        // candidate window (default 0.01–100, null = unbounded)
+  price_max?: number | null;
+  price_prefer_min?: number | null; // preferred window for chooseBestPrice (default 0.15–5)
+  price_prefer_max?: number | null;
+  price_prefer_under?: number | null;
+
+  total_selector?: string;
+  sold_selector?: string;
+  remaining_selector?: string;
+  total_patterns?: string[];
+  sold_patterns?: string[];
+  remaining_patterns?: string[];
+  max_patterns_script?: string[];
+  sold_patterns_script?: string[];
+  remaining_patterns_script?: string[];
+
+  ends_at_selectors?: string[];
+
+  instant_win_selectors?: string[]; // containers (table / list) holding the instant-win prizes
+
+  prize_value_selectors?: string[];      // element holding the RRP / "worth £X"
+  cash_alternative_selectors?: string[];
+
+  breadcrumb_selectors?: string[];                        // site's category trail / product category links
+  category_patterns?: Partial<Record<Category, string[]>>; // regexes added to the built-in keywords
+
+  free_entry_selectors?: string[];     // block describing the free / postal entry route
+  skill_question_selectors?: string[]; // container with the question and its answers
+
+  winners_card_selectors?: string[];   // one element per winner on the winners page
+
+  fallback?: AdapterRulesV1;        // revcomps: rules for the generic fallback
+};
+
+export type Rules = AdapterRulesV1;
+
+// raw row: `rules` is unvalidated jsonb until it goes through validateRules
+export type AdapterRules = { adapter_key: string; rules: unknown };
+
+export type SiteTier = 'free' | 'premium' | 'both';
+
+// competitions.status (lib/scrape/lifecycle.ts)
+export type CompetitionStatus = 'open' | 'sold_out' | 'draw_pending' | 'drawn' | 'cancelled' | 'removed';
+
+// sites.discovery (jsonb): how to find every competition beyond the first list page
+export type DiscoveryCfg = {
+  next_selector?: string;   // "next page" link on list pages
+  page_template?: string;   // e.g. '?page={page}' or 'page/{page}/', resolved against list_url
+  load_more_url?: string;   // JSON endpoint behind a "load more" button, '{page}' substituted
+  start_page?: number;      // first {page} value for page_template / load_more_url (default 2)
+  sitemap_url?: string;     // sitemap.xml or sitemap index
+  sitemap_include?: string; // regex for sitemap entries (default: adapter.isCompetitionUrl)
+  max_pages?: number;       // discovery request budget per run (default 10)
+  max_links?: number;       // detail pages processed per run (default: all)
+  store_api?: string | false; // WooCommerce Store API endpoint (default /wp-json/wc/store/products); false = HTML only
+};
+
+export type SiteCfg = {
+  id: string;
+  name: string;
+  list_url: string;
+  link_selector: string;
+  adapter_key: string; // key into the adapter registry (lib/scrape/adapters)
+  rate_limit_ms: number | null;
+  tier: SiteTier;
+  enabled: boolean;
+  discovery?: DiscoveryCfg | null;
+  timezone?: string | null; // IANA zone the site writes its dates in
+  user_agent?: string | null; // overrides DEFAULT_USER_AGENT (lib/scrape/fetch.ts)
+  refresh_interval_minutes?: number | null; // null = the tier default (lib/scrape/schedule.ts)
+  winners_url?: string | null; // winners / draw-results page; null = not crawled
+};
+
+
+export type Totals = { total: number | null; sold: number | null; remaining?: number | null; source?: FieldSource };
+
+// Which extraction strategy produced a field (confidence per source: ./provenance.ts)
+export type FieldSource =
+  | 'api'             // store API / product feed (no HTML involved)
+  | 'json_ld'         // structured data (schema.org Product / Offer)
+  | 'meta'            // <meta> tags
+  | 'anchor_text'     // rules.price_anchor_text
+  | 'rules_selector'  // adapter_rules CSS selectors
+  | 'selector'        // built-in CSS selectors
+  | 'data_attr'       // data-* attributes
+  | 'script'          // inline script JSON / attributes in raw HTML
+  | 'text'            // labelled body-text patterns
+  | 'text_relaxed'    // any number in the body text
+  | 'derived'         // computed from other fields (e.g. sold + remaining)
+  | 'title'           // <title> / og:title fallback
+  | 'none';
+
+export type Sourced<T> = { value: T; source: FieldSource };
+
+// Per-site context for parsing: wall-clock times are read in `timezone`,
+// relative ones ("tomorrow 9pm", "ends in 2 days") against `now`
+export type ParseCtx = {
+  timezone: string;
+  now: Date;
+  finalUrl?: string; // where the request ended up after redirects
+};
+
+// Entry fee plus the ISO currency it was written in
+export type Price = Sourced<number | null> & { currency: string | null };
+
+// confidence is null when the field wasn't found (source 'none')
+export type FieldProvenance = { source: FieldSource; confidence: number | null };
+
+export type Provenance = {
+  prize: FieldProvenance;
+  entry_fee: FieldProvenance;
+  totals: FieldProvenance;
+  ends_at: FieldProvenance;
+  prize_value?: FieldProvenance;
+};
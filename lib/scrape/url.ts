@@ -0,0 +1,28 @@
+// lib/scrape/url.ts
+// One spelling per competition page: competitions.url, page_cache and the
+// run's `seen` set all key on canonicalUrl(), so tracking parameters, product
+// variations and trailing slashes don't create duplicate rows.
+
+// Query parameters that never change which competition a page shows
+const DROP_PARAMS = [
+  /^utm_/i, /^fbclid$/i, /^gclid$/i, /^gbraid$/i, /^wbraid$/i, /^msclkid$/i, /^dclid$/i,
+  /^mc_(?:cid|eid)$/i, /^_ga$/i, /^_gl$/i, /^srsltid$/i, /^igshid$/i, /^ttclid$/i,
+  /^ref$/i, /^source$/i, /^aff(?:iliate)?(?:_id)?$/i,
+  // WooCommerce variations / cart actions on a product URL
+  /^variation(?:_id)?$/i, /^attribute_/i, /^add-to-cart$/i, /^quantity$/i,
+];
+
+export const canonicalUrl = (raw: string): string => {
+  let url: URL;
+  try { url = new URL(raw.trim()); } catch { return raw.trim(); }
+
+  url.hash = '';
+  url.hostname = url.hostname.replace(/\.$/, ''); // URL already lowercases it
+
+  const kept = [...url.searchParams].filter(([k]) => !DROP_PARAMS.some((re) => re.test(k)));
+  kept.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = new URLSearchParams(kept).toString();
+
+  url.pathname = url.pathname.replace(/\/{2,}/g, '/').replace(/(.)\/+$/, '$1');
+  return url.href;
+};
@@ -0,0 +1,41 @@
+// lib/scrape/utils.ts
+// Small, dependency-free helpers shared by the scraper and its adapters.
+
+// ---------- utils ----------
+export const sleep = (ms?: number | null) =>
+  ms && ms > 0 ? new Promise<void>((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+
+export const toFloat = (s?: string | null): number | null => {
+  if (s == null) return null;
+  let str = String(s);
+  // "2,50" / "1.234,50": the comma is the decimal separator (EU style)
+  if (/\d,\d{1,2}(?!\d)/.test(str) && !/\d\.\d{1,2}(?!\d)/.test(str)) {
+    str = str.replace(/\./g, '').replace(/,(?=\d{1,2}(?!\d))/, '.');
+  }
+  const n = parseFloat(str.replace(/[^\d.]/g, ''));
+  return Number.isFinite(n) ? n : null;
+};
+
+export const toInt = (s?: string | null): number | null => {
+  if (s == null) return null;
+  const n = parseInt(String(s).replace(/[^\d]/g, ''), 10);
+  return Number.isFinite(n) ? n : null;
+};
+
+// Pulls "sold / total" like: 82,588 / 629,999 (labels may be elsewhere)
+export const readSoldTotalFraction = (text: string): { sold: number; total: number } | null => {
+  const cleaned = text.replace(/\u00A0|\u202F/g, ' ');
+  const m = cleaned.match(/(\d[\d,]*)\s*\/\s*(\d[\d,]*)/);
+  if (!m) return null;
+  const sold = toInt(m[1]);
+  const total = toInt(m[2]);
+  if (sold == null || total == null) return null;
+  if (sold > total) return null;
+  return { sold, total };
+};
+
+export const computeRemaining = (total?: number | null, sold?: number | null) => {
+  if (total == null || sold == null) return null;
+  const r = total - sold;
+  return r >= 0 ? r : null;
+};
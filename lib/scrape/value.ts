@@ -0,0 +1,100 @@
+// lib/scrape/value.ts
+// Stated prize value (RRP / "worth") and cash alternative: rules selectors,
+// JSON-LD properties/description, the prize title, then labelled body text.
+import type { CheerioAPI } from 'cheerio';
+import type { FieldSource, Rules, Sourced } from './types';
+import { jsonLdProducts } from './price';
+import { toFloat } from './utils';
+
+export type PrizeValue = {
+  value: Sourced<number | null>;
+  cash_alternative: number | null;
+};
+
+// "£35,000", "£35k", "€1.2m" (same currency as the entry fee)
+export const parseAmount = (s?: string | null): number | null => {
+  const m = s?.match(/[£€$]\s*(\d[\d,]*(?:\.\d+)?)\s*(k|m|million|thousand)?\b/i);
+  if (!m) return null;
+  const n = toFloat(m[1]);
+  if (n == null) return null;
+  const unit = m[2]?.toLowerCase();
+  return unit === 'k' || unit === 'thousand' ? n * 1_000 : unit === 'm' || unit === 'million' ? n * 1_000_000 : n;
+};
+
+const AMOUNT = '[£€$]\\s*\\d[\\d,]*(?:\\.\\d+)?\\s*(?:k|m|million|thousand)?\\b';
+
+// tied to the prize: a bare "value" is marketing ("great value £2.99")
+const VALUE_PATTERNS = [
+  new RegExp(`\\b(?:RRP|worth|valued\\s+at|prize\\s+value|retail\\s+value|value\\s+of\\s+(?:the\\s+)?prize)\\b[^£€$\\n]{0,20}(${AMOUNT})`, 'i'),
+  new RegExp(`(${AMOUNT})\\s*(?:RRP|value)\\b`, 'i'),
+];
+const CASH_PATTERNS = [
+  new RegExp(`\\bcash\\s+alternative\\b[^£€$\\n]{0,30}(${AMOUNT})`, 'i'),
+  new RegExp(`(${AMOUNT})\\s*(?:tax[-\\s]free\\s+)?cash\\s+alternative\\b`, 'i'),
+  new RegExp(`\\bor\\s+(${AMOUNT})\\s*(?:tax[-\\s]free\\s+)?cash\\b`, 'i'),
+];
+// the whole prize is money: "£25,000 Tax-Free Cash"
+const CASH_PRIZE = new RegExp(`^\\s*(${AMOUNT})\\s*(?:tax[-\\s]free\\s+)?(?:cash|site\\s+credit)\\b`, 'i');
+
+// `above`: a stated prize value is worth more than one ticket
+const firstMatch = (text: string, patterns: RegExp[], above = 0) => {
+  for (const re of patterns) {
+    const n = parseAmount(text.match(re)?.[1]);
+    if (n != null && n >= 1 && n > above) return n; // "£0.99 per entry" isn't a prize value
+  }
+  return null;
+};
+
+const fromJsonLd = ($: CheerioAPI) => {
+  let value: number | null = null;
+  let cash: number | null = null;
+  let description = '';
+  for (const g of jsonLdProducts($)) {
+    const props = Array.isArray(g.additionalProperty) ? g.additionalProperty : g.additionalProperty ? [g.additionalProperty] : [];
+    for (const p of props) {
+      const name = String(p?.name ?? '');
+      const amount = typeof p?.value === 'number' ? p.value : parseAmount(String(p?.value ?? '')) ?? toFloat(String(p?.value ?? ''));
+      if (amount == null) continue;
+      if (/cash/i.test(name)) cash ??= amount;
+      else if (/rrp|value|worth/i.test(name)) value ??= amount;
+    }
+    if (typeof g.description === 'string') description += ' ' + g.description;
+  }
+  return { value, cash, description };
+};
+
+export const extractPrizeValue = ($: CheerioAPI, prize: string, rules?: Rules, entryFee?: number | null): PrizeValue => {
+  const selected = (sels?: string[]) => {
+    for (const sel of sels ?? []) {
+      const n = parseAmount($(sel).first().text()) ?? toFloat($(sel).first().text());
+      if (n != null && n > 0) return n;
+    }
+    return null;
+  };
+
+  const ld = fromJsonLd($);
+  const body = $('body').text().replace(/\s+/g, ' ');
+  const cashPrize = parseAmount(prize.match(CASH_PRIZE)?.[1]);
+  const fee = entryFee ?? 0;
+
+  const cascade: [FieldSource, () => number | null][] = [
+    ['rules_selector', () => selected(rules?.prize_value_selectors)],
+    ['json_ld', () => ld.value ?? firstMatch(ld.description, VALUE_PATTERNS, fee)],
+    ['title', () => cashPrize],
+    ['text', () => firstMatch(body, VALUE_PATTERNS, fee)],
+  ];
+  let value: Sourced<number | null> = { value: null, source: 'none' };
+  for (const [source, read] of cascade) {
+    const n = read();
+    if (n != null) { value = { value: n, source }; break; }
+  }
+
+  const cash_alternative =
+    selected(rules?.cash_alternative_selectors) ??
+    ld.cash ??
+    firstMatch(`${prize} ${ld.description}`, CASH_PATTERNS) ??
+    firstMatch(body, CASH_PATTERNS) ??
+    cashPrize;
+
+  return { value, cash_alternative };
+};
@@ -0,0 +1,206 @@
+// lib/scrape/winners.ts
+// Winners / draw-results pages (`sites.winners_url`): one card per draw with the
+// prize, winning ticket, winner's name or initials, draw date and a link to the
+// live draw. Results are tied to competitions by URL, else by prize title, and
+// stored in draw_results (026_draw_results.sql), which marks the competition
+// drawn and resolves users' entries.
+import type { CheerioAPI } from 'cheerio';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CompetitionStatus, DrawResult, ParseCtx, Rules, SiteCfg } from './types';
+import { tryParseDateUKLike } from './dates';
+import { canonicalUrl } from './url';
+import { titleSimilarity } from './anomalies';
+import { prizeKey } from './grouping';
+
+type Selection = ReturnType<CheerioAPI>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const clean = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+// ---------- cards ----------
+const DEFAULT_CARDS = [
+  '[class*="winner-card"]', '[class*="winner-item"]', '[class*="winners-list"] > li',
+  '.winners li', '.winner', 'table[class*="winner"] tbody tr',
+];
+
+// first selector that matches anything, so nested card markup isn't read twice
+const findCards = ($: CheerioAPI, rules?: Rules): Selection => {
+  for (const sel of [...(rules?.winners_card_selectors ?? []), ...DEFAULT_CARDS]) {
+    const cards = $(sel);
+    if (cards.length) return cards;
+  }
+  return $([]);
+};
+
+// ---------- card fields ----------
+const TICKET = /\bticket(?:\s*(?:no\.?|number|#))?\s*[:#]?\s*#?\s*([A-Z]{0,2}-?\d[\d,]*)\b/i;
+// names start with a capital: "Winner announced" isn't a name
+const WINNER = /\b(?:[Ww]inner|[Ww]on\s+by|[Cc]ongratulations(?:\s+to)?)\s*(?:is\s+)?[:\-–]?\s*([A-Z][A-Za-z'’.-]*(?:\s+[A-Z][A-Za-z'’.-]*){0,2})/;
+const NOT_A_NAME = /^(?:Ticket|Draw|Drawn|Date|Live|Winning|Prize)\b/;
+const DRAWN = /\b(?:drawn(?:\s+on)?|draw\s+date|draw\s+on|date\s+drawn)\s*[:\-]?\s*(.{0,40})/i;
+const LIVE_HOSTS = /(?:^|\.)(?:facebook\.com|fb\.watch|youtube\.com|youtu\.be|tiktok\.com|instagram\.com|twitch\.tv)$/i;
+
+const resolve = (href: string | undefined, base: string): URL | null => {
+  if (!href || href.startsWith('#')) return null;
+  try { return new URL(href, base); } catch { return null; }
+};
+
+const readPrize = ($card: Selection): string =>
+  clean($card.find('h1,h2,h3,h4,h5,[class*="prize"],[class*="title"]').first().text())
+    .replace(/^(?:winner\s+of|won)\s*:?\s*/i, '');
+
+const readWinner = ($card: Selection, text: string): string | null => {
+  const named = clean($card.find('[class*="winner-name"]').first().text());
+  if (named) return named;
+  const m = text.match(WINNER);
+  return m && !NOT_A_NAME.test(m[1]) ? m[1].replace(/[.,]$/, '') : null;
+};
+
+// Draws are in the past: a yearless "12th May" that parses ahead of the clock was last year's
+const readDrawnAt = ($card: Selection, text: string, ctx?: ParseCtx): string | null => {
+  const now = ctx?.now ?? new Date();
+  const raw = $card.find('time[datetime]').first().attr('datetime') ?? text.match(DRAWN)?.[1];
+  const d = tryParseDateUKLike(raw, { timezone: ctx?.timezone, now, defaultTime: { h: 12, mi: 0, s: 0 } });
+  if (!d) return null;
+  if (d.getTime() > now.getTime() + DAY) d.setUTCFullYear(d.getUTCFullYear() - 1);
+  return d.toISOString();
+};
+
+export const parseWinnersDefault = (
+  $: CheerioAPI,
+  pageUrl: string,
+  isCompetitionUrl: (url: URL) => boolean,
+  rules?: Rules,
+  ctx?: ParseCtx,
+): DrawResult[] => {
+  const out: DrawResult[] = [];
+  const host = resolve(pageUrl, pageUrl)?.hostname;
+  findCards($, rules).each((_, el) => {
+    const $card = $(el);
+    const text = clean($card.text());
+
+    let competition_url: string | null = null;
+    let live_draw_url: string | null = null;
+    let linkText = '';
+    $card.find('a[href]').each((_, a) => {
+      const url = resolve($(a).attr('href'), pageUrl);
+      if (!url) return;
+      if (!live_draw_url && (LIVE_HOSTS.test(url.hostname) || /\blive\s*draw\b|\bwatch\b/i.test($(a).text()))) {
+        live_draw_url = url.href;
+      } else if (!competition_url && url.hostname === host && isCompetitionUrl(url)) {
+        competition_url = canonicalUrl(url.href);
+        linkText = clean($(a).text());
+      }
+    });
+
+    const prize = readPrize($card) || linkText;
+    const winning_ticket = text.match(TICKET)?.[1]?.replace(/,/g, '') ?? null;
+    const winner = readWinner($card, text);
+    // a card without a ticket or a name is a teaser, not a result
+    if (!prize || (!winning_ticket && !winner)) return;
+
+    out.push({
+      prize,
+      competition_url,
+      winning_ticket,
+      winner,
+      drawn_at: readDrawnAt($card, text, ctx),
+      live_draw_url,
+    });
+  });
+  return out;
+};
+
+// ---------- matching ----------
+export type DrawCandidate = {
+  id: string;
+  url: string;
+  prize: string;
+  status: CompetitionStatus | null;
+  ends_at: string | null;
+};
+
+export type DrawMatch = { competition_id: string; matched_by: 'url' | 'title' };
+
+export const MIN_DRAW_TITLE_SIMILARITY = 0.6;
+
+// By URL when the card links to the competition; otherwise the closest prize
+// title. A title match marks the competition drawn for good, and sites rerun the
+// same prize ("£1,000 Cash"), so only competitions that have already closed
+// qualify: not open, with a closing date that has passed and isn't after the
+// draw. Of those, the one closing nearest the draw wins.
+export const matchDrawResult = (
+  result: DrawResult,
+  candidates: DrawCandidate[],
+  now = Date.now(),
+): DrawMatch | null => {
+  if (result.competition_url) {
+    const byUrl = candidates.find((c) => c.url === result.competition_url);
+    if (byUrl) return { competition_id: byUrl.id, matched_by: 'url' };
+  }
+
+  const drawnAt = result.drawn_at ? new Date(result.drawn_at).getTime() : null;
+  const closed = (c: DrawCandidate) => {
+    if (c.status === 'open' || !c.ends_at) return false;
+    const endsAt = new Date(c.ends_at).getTime();
+    return endsAt <= now && (drawnAt == null || endsAt <= drawnAt + DAY);
+  };
+  const gap = (c: DrawCandidate) =>
+    drawnAt != null ? Math.abs(drawnAt - new Date(c.ends_at!).getTime()) : now - new Date(c.ends_at!).getTime();
+
+  const scored = candidates
+    .filter(closed)
+    .map((c) => ({ c, score: titleSimilarity(result.prize, c.prize) }))
+    .filter((s) => s.score >= MIN_DRAW_TITLE_SIMILARITY)
+    .sort((a, b) => b.score - a.score || gap(a.c) - gap(b.c));
+  return scored.length ? { competition_id: scored[0].c.id, matched_by: 'title' } : null;
+};
+
+// ---------- storage ----------
+const CANDIDATE_LIMIT = 1000;
+
+// Same draw on every crawl of the page → same row
+const fingerprint = (siteName: string, r: DrawResult) =>
+  [siteName, prizeKey(r.prize) ?? r.prize.toLowerCase(), r.winning_ticket ?? '', r.winner ?? '', r.drawn_at?.slice(0, 10) ?? ''].join('|');
+
+// Returns how many results were tied to a competition
+export async function writeDrawResults(
+  supabase: SupabaseClient,
+  site: SiteCfg,
+  sourceUrl: string,
+  results: DrawResult[],
+): Promise<number> {
+  if (!results.length) return 0;
+
+  const { data, error } = await supabase
+    .from('competitions')
+    .select('id,url,prize,status,ends_at')
+    .eq('site_name', site.name)
+    .order('scraped_at', { ascending: false })
+    .limit(CANDIDATE_LIMIT);
+  if (error) throw error;
+  const candidates = (data ?? []) as DrawCandidate[];
+
+  const rows = results.map((r) => ({
+    ...r,
+    site_name: site.name,
+    source_url: sourceUrl,
+    fingerprint: fingerprint(site.name, r),
+    ...matchDrawResult(r, candidates),
+  }));
+  const matched = rows.filter((r) => 'competition_id' in r);
+  const unmatched = rows.filter((r) => !('competition_id' in r));
+
+  // an unmatched re-read never clears a match made earlier
+  const [a, b] = await Promise.all([
+    matched.length
+      ? supabase.from('draw_results').upsert(matched, { onConflict: 'fingerprint', ignoreDuplicates: false })
+      : { error: null },
+    unmatched.length
+      ? supabase.from('draw_results').upsert(unmatched, { onConflict: 'fingerprint', ignoreDuplicates: true })
+      : { error: null },
+  ]);
+  if (a.error || b.error) throw new Error(`draw_results upsert: ${(a.error ?? b.error)!.message}`);
+  return matched.length;
+}
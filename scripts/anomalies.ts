@@ -0,0 +1,85 @@
+// scripts/anomalies.ts
+// Which re-scrapes get held for review (run as part of `npm test`).
+import assert from 'node:assert/strict';
+import { detectAnomalies, toReview, type AnomalyKind, type HeldRow, type StoredValues } from '../lib/scrape/anomalies';
+import type { DbRow } from '../lib/scrape/types';
+import { suite } from './harness';
+
+const PREV: StoredValues = {
+  id: 'c1',
+  url: 'https://x.test/competition/bmw-m4/',
+  prize: 'Win a BMW M4 Competition + £2,000 Cash',
+  entry_fee: 0.99,
+  currency: 'GBP',
+  total_tickets: 9999,
+  tickets_sold: 4200,
+  status: 'open',
+  status_reason: null,
+};
+
+const next = (patch: Partial<DbRow>): DbRow => ({
+  prize: PREV.prize,
+  site_name: 'X',
+  entry_fee: PREV.entry_fee,
+  currency: 'GBP',
+  total_tickets: PREV.total_tickets,
+  tickets_sold: PREV.tickets_sold,
+  url: PREV.url,
+  ...patch,
+});
+
+type Case = [name: string, patch: Partial<DbRow>, expected: AnomalyKind[], prev?: Partial<StoredValues>];
+
+const CASES: Case[] = [
+  ['unchanged', {}, []],
+  ['sales move on', { tickets_sold: 4800 }, []],
+  ['sold goes down', { tickets_sold: 120 }, ['sold_decreased']],
+  ['sold disappears', { tickets_sold: null }, []],
+  ['total ten times bigger', { total_tickets: 99990 }, ['total_changed']],
+  ['total first seen', { total_tickets: 9999 }, [], { total_tickets: null }],
+  ['small price change', { entry_fee: 1.25 }, []],
+  ['price picked from the wrong place', { entry_fee: 100 }, ['fee_jump']],
+  ['price halves and then some', { entry_fee: 0.25 }, ['fee_jump']],
+  ['currency switch', { entry_fee: 0.99, currency: 'EUR' }, ['fee_jump']],
+  ['title reworded', { prize: 'BMW M4 Competition' }, []],
+  ['title punctuation', { prize: 'Win A BMW M4 Competition!' }, []],
+  ['different prize on the url', { prize: 'Rolex Submariner 126610LN' }, ['prize_changed']],
+  ['cash amount changed', { prize: '£50,000 Tax Free Cash' }, ['prize_changed'], { prize: '£5,000 Tax Free Cash' }],
+  ['redesign breaks everything', { entry_fee: 100, total_tickets: 100, tickets_sold: 3 }, ['sold_decreased', 'total_changed', 'fee_jump']],
+];
+
+const { check, done } = suite('anomalies');
+
+for (const [name, patch, expected, prev] of CASES) {
+  check(name, () => {
+    const kinds = detectAnomalies({ ...PREV, ...prev }, next(patch)).map((a) => a.kind);
+    assert.deepEqual(kinds, expected);
+  });
+}
+
+// A rejected review keeps the same values quiet for a week, then asks again
+const NOW = Date.parse('2030-03-10T12:00:00Z');
+const heldRow = (patch: Partial<DbRow>): HeldRow => ({
+  row: next(patch),
+  previous: PREV,
+  anomalies: detectAnomalies(PREV, next(patch)),
+  instant_wins: [],
+});
+const rejectedAt = (reviewed_at: string, fingerprint = 'tickets_sold=120') => ({ url: PREV.url, fingerprint, reviewed_at });
+
+type ReviewCase = [name: string, held: HeldRow, rejected: ReturnType<typeof rejectedAt>[], expected: boolean];
+
+const REVIEW_CASES: ReviewCase[] = [
+  ['never rejected', heldRow({ tickets_sold: 120 }), [], true],
+  ['rejected yesterday, same values', heldRow({ tickets_sold: 120 }), [rejectedAt('2030-03-09T12:00:00Z')], false],
+  ['rejected yesterday, new values', heldRow({ tickets_sold: 80 }), [rejectedAt('2030-03-09T12:00:00Z')], true],
+  ['rejection expired: held again', heldRow({ tickets_sold: 120 }), [rejectedAt('2030-03-01T12:00:00Z')], true],
+];
+
+for (const [name, held, rejected, expected] of REVIEW_CASES) {
+  check(name, () => {
+    assert.equal(toReview([held], rejected, NOW).length === 1, expected);
+  });
+}
+
+done();
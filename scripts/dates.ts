@@ -0,0 +1,90 @@
+// scripts/dates.ts
+// Close-date parsing around the UK clock changes (run as part of `npm test`).
+// 2030: BST starts 31 March 01:00 UTC, ends 27 October 01:00 UTC.
+import assert from 'node:assert/strict';
+import { load } from 'cheerio';
+import { extractEndsAt, tryParseDateUKLike, zonedTimeToUtc, type DateParseOpts } from '../lib/scrape/dates';
+import { suite } from './harness';
+
+type Case = [name: string, raw: string, expected: string | null, opts?: DateParseOpts];
+
+const at = (iso: string) => new Date(iso);
+
+const CASES: Case[] = [
+  // wall-clock times in and out of BST
+  ['winter GMT', '14/02/2030 20:00', '2030-02-14T20:00:00.000Z'],
+  ['summer BST', '14/07/2030 20:00', '2030-07-14T19:00:00.000Z'],
+  ['named month + pm', '18 December 2030 8pm', '2030-12-18T20:00:00.000Z'],
+  ['ordinal "of"', '11th of October 2030 10pm', '2030-10-11T21:00:00.000Z'],
+  ['US order', 'October 11, 2030 9:30pm', '2030-10-11T20:30:00.000Z'],
+  ['ISO local', '2030-06-01 21:00', '2030-06-01T20:00:00.000Z'],
+  ['date only → end of day', '1 June 2030', '2030-06-01T22:59:59.000Z'],
+
+  // spring forward: 01:00–02:00 local doesn't exist on 31 March
+  ['before the jump', '31/03/2030 00:30', '2030-03-31T00:30:00.000Z'],
+  ['inside the gap', '31/03/2030 01:30', '2030-03-31T01:30:00.000Z'],
+  ['after the jump', '31/03/2030 03:00', '2030-03-31T02:00:00.000Z'],
+  ['day after', '01/04/2030 20:00', '2030-04-01T19:00:00.000Z'],
+
+  // fall back: 01:00–02:00 local happens twice on 27 October (later = GMT)
+  ['before the overlap', '27/10/2030 00:30', '2030-10-26T23:30:00.000Z'],
+  ['inside the overlap', '27/10/2030 01:30', '2030-10-27T01:30:00.000Z'],
+  ['after the overlap', '27/10/2030 02:30', '2030-10-27T02:30:00.000Z'],
+  ['day before', '26/10/2030 20:00', '2030-10-26T19:00:00.000Z'],
+
+  // explicit instants are never shifted
+  ['ISO Z', '2030-07-14T20:00:00Z', '2030-07-14T20:00:00.000Z'],
+  ['ISO offset', '2030-07-14T20:00:00+02:00', '2030-07-14T18:00:00.000Z'],
+  ['GMT label', '14 July 2030 20:00 GMT', '2030-07-14T20:00:00.000Z'],
+
+  // relative to `now`
+  ['today', 'today at 9pm', '2030-07-14T20:00:00.000Z', { now: at('2030-07-14T10:00:00Z') }],
+  ['tonight', 'Tonight 10pm', '2030-01-14T22:00:00.000Z', { now: at('2030-01-14T10:00:00Z') }],
+  ['tomorrow across spring forward', 'Tomorrow 9pm', '2030-03-31T20:00:00.000Z', { now: at('2030-03-30T12:00:00Z') }],
+  ['tomorrow across fall back', 'tomorrow at 21:00', '2030-10-27T21:00:00.000Z', { now: at('2030-10-26T12:00:00Z') }],
+  // 23:30 UTC on 30 June is already 1 July in London
+  ['"today" is the local day', 'today 11pm', '2030-07-01T22:00:00.000Z', { now: at('2030-06-30T23:30:00Z') }],
+  ['countdown', 'in 2 days 4 hours', '2030-03-03T04:00:00.000Z', { now: at('2030-03-01T00:00:00Z') }],
+  ['short countdown', '1d 02h 30m', '2030-03-02T02:30:00.000Z', { now: at('2030-03-01T00:00:00Z') }],
+  ['countdown in words', 'in 3 mins', '2030-03-01T00:03:00.000Z', { now: at('2030-03-01T00:00:00Z') }],
+  // not countdowns: a time in the past, and a unit that could be anything
+  ['"ago" is the past', '2 hours ago', null, { now: at('2030-03-01T00:00:00Z') }],
+  ['"ago" with units', '1d 4h ago', null, { now: at('2030-03-01T00:00:00Z') }],
+  ['bare "3m"', '3m', null, { now: at('2030-03-01T00:00:00Z') }],
+  ['no year → next occurrence', '5 January 9pm', '2031-01-05T21:00:00.000Z', { now: at('2030-11-01T00:00:00Z') }],
+
+  // other zones
+  ['Dublin summer', '14/07/2030 20:00', '2030-07-14T19:00:00.000Z', { timezone: 'Europe/Dublin' }],
+  ['Paris winter', '14/02/2030 20:00', '2030-02-14T19:00:00.000Z', { timezone: 'Europe/Paris' }],
+
+  ['garbage', 'coming soon', null],
+];
+
+const { check, done } = suite('dates');
+
+for (const [name, raw, expected, opts] of CASES) {
+  check(name, () => {
+    const d = tryParseDateUKLike(raw, opts);
+    assert.equal(d ? d.toISOString() : null, expected, `"${raw}"`);
+  });
+}
+
+check('zonedTimeToUtc round trip', () => {
+  assert.equal(zonedTimeToUtc(2030, 6, 14, 20, 0, 0, 'Europe/London').toISOString(), '2030-07-14T19:00:00.000Z');
+  assert.equal(zonedTimeToUtc(2030, 0, 14, 20, 0, 0, 'Europe/London').toISOString(), '2030-01-14T20:00:00.000Z');
+});
+
+check('"Drawn on" defaults to 10pm local', () => {
+  const $ = load('<body><p>Drawn on the 25th of September 2030 on Facebook Live.</p></body>');
+  assert.deepEqual(extractEndsAt($, undefined, { timezone: 'Europe/London', now: at('2030-01-01T00:00:00Z') }), {
+    value: '2030-09-25T21:00:00.000Z',
+    source: 'text',
+  });
+});
+
+check('label skips unparseable matches', () => {
+  const $ = load('<body><nav>Ending soon</nav><p>Closes: 2 November 2030 9pm</p></body>');
+  assert.equal(extractEndsAt($).value, '2030-11-02T21:00:00.000Z');
+});
+
+done();
@@ -0,0 +1,68 @@
+// scripts/fetch.ts
+// Retries around the worker's deadline (run as part of `npm test`). fetch() is
+// replaced by a scripted sequence of responses; no network is used.
+import assert from 'node:assert/strict';
+import { fetchHtml, HttpError } from '../lib/scrape/fetch';
+import { suite } from './harness';
+
+const URL_ = 'https://x.test/competition/a';
+
+type Step = Response | Error;
+
+// Answers with `steps` in order and counts the calls
+const scripted = (steps: Step[]) => {
+  let calls = 0;
+  globalThis.fetch = (async () => {
+    const step = steps[Math.min(calls++, steps.length - 1)];
+    if (step instanceof Error) throw step;
+    return step;
+  }) as typeof fetch;
+  return () => calls;
+};
+
+const busy = (retryAfter: string) => new Response('busy', { status: 503, headers: { 'retry-after': retryAfter } });
+const ok = () => new Response('ok', { status: 200 });
+
+const { check, done } = suite('fetch');
+
+const main = async () => {
+  await check('no deadline: 503 then retried', async () => {
+    const calls = scripted([busy('0'), ok()]);
+    assert.equal(await fetchHtml(URL_), 'ok');
+    assert.equal(calls(), 2);
+  });
+
+  await check('retry fits before the deadline', async () => {
+    const calls = scripted([busy('0'), ok()]);
+    assert.equal(await fetchHtml(URL_, { deadline: Date.now() + 10_000 }), 'ok');
+    assert.equal(calls(), 2);
+  });
+
+  await check('Retry-After past the deadline: no retry', async () => {
+    const calls = scripted([busy('5'), ok()]);
+    const statuses: (number | 'network')[] = [];
+    const started = Date.now();
+    await assert.rejects(
+      fetchHtml(URL_, { deadline: Date.now() + 1000, onStatus: (s) => statuses.push(s) }),
+      (e) => e instanceof HttpError && e.status === 503,
+    );
+    assert.equal(calls(), 1);
+    assert.deepEqual(statuses, [503]);
+    assert.ok(Date.now() - started < 1000, 'did not wait for Retry-After');
+  });
+
+  await check('network error at the deadline: no retry', async () => {
+    const calls = scripted([new TypeError('fetch failed'), ok()]);
+    const statuses: (number | 'network')[] = [];
+    await assert.rejects(
+      fetchHtml(URL_, { deadline: Date.now(), onStatus: (s) => statuses.push(s) }),
+      TypeError,
+    );
+    assert.equal(calls(), 1);
+    assert.deepEqual(statuses, ['network']);
+  });
+
+  done();
+};
+
+main();
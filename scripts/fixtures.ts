@@ -0,0 +1,161 @@
+// scripts/fixtures.ts
+// Offline regression suite for the site adapters.
+//
+//   npm test                                  run every adapter against fixtures/scrape
+//   npm test -- --update                      rewrite the golden outputs from current parsers
+//   npm run fixtures:record -- <adapter_key> <url> [name] [--list <link_selector>]
+//                                             capture a live page into the corpus
+//
+// Corpus layout: fixtures/scrape/<adapter_key>/<name>.html + <name>.json, where
+// the JSON holds the page's meta (url, site_name, optional rules / list config)
+// and `expected` — the ApiRow (detail pages) or link list (list pages).
+// `discovery` fixtures run the full paginated crawl against a `pages` map of
+// URL → saved file in the same directory; <name>.html is the first list page.
+// `feed` fixtures run the adapter's loadFeed (store API) against `pages` only.
+// `winners` fixtures parse a winners / draw-results page into DrawResults.
+// Dates are parsed in `timezone` (default Europe/London) against a fixed clock,
+// so relative dates ("tomorrow 9pm") give the same golden on every run.
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { load } from 'cheerio';
+import { getAdapter } from '../lib/scrape/adapters';
+import { fetchHtml } from '../lib/scrape/fetch';
+import { discoverCatalogue } from '../lib/scrape/discovery';
+import { validateRules } from '../lib/scrape/rules';
+import { DEFAULT_TIMEZONE } from '../lib/scrape/dates';
+import type { DiscoveryCfg, SiteCfg } from '../lib/scrape/types';
+
+const ROOT = join(process.cwd(), 'fixtures', 'scrape');
+const FIXED_NOW = new Date('2025-06-01T12:00:00Z');
+
+type FixtureMeta = {
+  kind: 'detail' | 'list' | 'discovery' | 'feed' | 'winners';
+  url: string;
+  site_name: string;
+  link_selector?: string; // list + discovery
+  discovery?: DiscoveryCfg;
+  pages?: Record<string, string>; // discovery + feed: URL → file
+  rules?: unknown; // validated like adapter_rules.rules
+  timezone?: string;
+  final_url?: string; // detail: where the fetch ended up after redirects
+  expected: unknown;
+};
+
+const runFixture = async (adapterKey: string, meta: FixtureMeta, html: string, dir: string): Promise<unknown> => {
+  const adapter = getAdapter(adapterKey);
+  const { rules, issues } = validateRules(meta.rules);
+  if (issues.length) console.warn(`  rules issues: ${issues.join('; ')}`);
+  const ctx = { timezone: meta.timezone ?? DEFAULT_TIMEZONE, now: FIXED_NOW };
+  if (meta.kind === 'winners') return adapter.parseWinners(html, meta.url, rules, ctx);
+  if (meta.kind !== 'detail') {
+    const site: SiteCfg = {
+      id: 'fixture',
+      name: meta.site_name,
+      list_url: meta.url,
+      link_selector: meta.link_selector ?? 'a[href]',
+      adapter_key: adapterKey,
+      rate_limit_ms: null,
+      tier: 'both',
+      enabled: true,
+      discovery: meta.discovery,
+      timezone: meta.timezone,
+    };
+    if (meta.kind === 'list') return adapter.discoverLinks(load(html), site);
+
+    const offline = async (url: string) => {
+      if (url === meta.url && html) return html;
+      const file = meta.pages?.[url];
+      if (!file) throw new Error(`HTTP 404 for ${url}`);
+      return readFileSync(join(dir, file), 'utf8');
+    };
+    if (meta.kind === 'feed') {
+      if (!adapter.loadFeed) throw new Error(`adapter "${adapterKey}" has no loadFeed`);
+      return adapter.loadFeed(site, offline);
+    }
+    const { links, pages } = await discoverCatalogue(site, adapter, offline);
+    return { links, pages };
+  }
+  return adapter.parseDetail(html, meta.url, meta.site_name, rules, { ...ctx, finalUrl: meta.final_url });
+};
+
+// Key-order-insensitive comparison of plain JSON values
+const stable = (v: unknown): string =>
+  JSON.stringify(v, (_k, val) =>
+    val && typeof val === 'object' && !Array.isArray(val)
+      ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+      : val
+  );
+
+const writeMeta = (path: string, meta: FixtureMeta) =>
+  writeFileSync(path, JSON.stringify(meta, null, 2) + '\n');
+
+async function check(update: boolean): Promise<number> {
+  let failed = 0;
+  let passed = 0;
+
+  for (const adapterKey of readdirSync(ROOT).sort()) {
+    const dir = join(ROOT, adapterKey);
+    for (const file of readdirSync(dir).filter((f) => f.endsWith('.json')).sort()) {
+      const name = file.replace(/\.json$/, '');
+      const metaPath = join(dir, file);
+      const meta = JSON.parse(readFileSync(metaPath, 'utf8')) as FixtureMeta;
+      const htmlPath = join(dir, `${name}.html`);
+      const html = existsSync(htmlPath) ? readFileSync(htmlPath, 'utf8') : ''; // feed fixtures have none
+      // round-trip so `undefined` fields compare the same as on disk
+      const actual = JSON.parse(JSON.stringify((await runFixture(adapterKey, meta, html, dir)) ?? null));
+
+      if (stable(actual) === stable(meta.expected)) {
+        passed++;
+        continue;
+      }
+      if (update) {
+        writeMeta(metaPath, { ...meta, expected: actual });
+        console.log(`updated  ${adapterKey}/${name}`);
+        continue;
+      }
+      failed++;
+      console.error(`FAIL     ${adapterKey}/${name}`);
+      console.error('  expected:', JSON.stringify(meta.expected));
+      console.error('  actual:  ', JSON.stringify(actual));
+    }
+  }
+
+  console.log(`[fixtures] ${passed} passed, ${failed} failed`);
+  return failed ? 1 : 0;
+}
+
+async function record(args: string[]): Promise<number> {
+  const listIdx = args.indexOf('--list');
+  const linkSelector = listIdx >= 0 ? args.splice(listIdx, 2)[1] : undefined;
+  const [adapterKey, url, nameArg] = args;
+  if (!adapterKey || !url) {
+    console.error('usage: fixtures:record -- <adapter_key> <url> [name] [--list <link_selector>]');
+    return 1;
+  }
+
+  const name = nameArg ?? (new URL(url).pathname.split('/').filter(Boolean).pop() || 'index');
+  const dir = join(ROOT, adapterKey);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+  const html = await fetchHtml(url);
+  const meta: FixtureMeta = {
+    kind: linkSelector ? 'list' : 'detail',
+    url,
+    site_name: new URL(url).hostname,
+    ...(linkSelector ? { link_selector: linkSelector } : {}),
+    expected: null,
+  };
+  meta.expected = JSON.parse(JSON.stringify((await runFixture(adapterKey, meta, html, dir)) ?? null));
+
+  writeFileSync(join(dir, `${name}.html`), html);
+  writeMeta(join(dir, `${name}.json`), meta);
+  console.log(`[fixtures] recorded ${adapterKey}/${name} — review "expected" before committing`);
+  return 0;
+}
+
+const [cmd, ...rest] = process.argv.slice(2);
+const run = cmd === 'record' ? record(rest) : check(process.argv.includes('--update'));
+run.then((code) => process.exit(code)).catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
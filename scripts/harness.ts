@@ -0,0 +1,34 @@
+// scripts/harness.ts
+// Pass/fail bookkeeping shared by the test scripts: check() runs one case and
+// reports a failure without stopping the rest; done() prints the tally and
+// fails the process when anything did.
+
+export function suite(name: string) {
+  let passed = 0;
+  let failed = 0;
+
+  const fail = (caseName: string, e: unknown) => {
+    failed++;
+    console.log(`FAIL     ${caseName}\n  ${e instanceof Error ? e.message.split('\n').join('\n  ') : e}`);
+  };
+
+  // sync cases are counted straight away; async ones once the returned promise settles
+  function check(caseName: string, fn: () => Promise<void>): Promise<void>;
+  function check(caseName: string, fn: () => void): void;
+  function check(caseName: string, fn: () => void | Promise<void>): void | Promise<void> {
+    try {
+      const out = fn();
+      if (out instanceof Promise) return out.then(() => { passed++; }, (e) => fail(caseName, e));
+      passed++;
+    } catch (e) {
+      fail(caseName, e);
+    }
+  }
+
+  const done = () => {
+    console.log(`[${name}] ${passed} passed, ${failed} failed`);
+    if (failed) process.exit(1);
+  };
+
+  return { check, done };
+}
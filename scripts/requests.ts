@@ -0,0 +1,54 @@
+// scripts/requests.ts
+// Targeted scrape bodies: which go to the queue and how they're validated (run as part of `npm test`).
+import assert from 'node:assert/strict';
+import { CrawlRequestError, isTargeted, parseCrawlRequest, requestStatus, type CrawlRequestParams } from '../lib/scrape/requests';
+import { suite } from './harness';
+
+type Case = [name: string, body: Record<string, unknown>, expected: Partial<CrawlRequestParams> | number];
+
+const CASES: Case[] = [
+  ['one site by name', { sites: ['Rev Comps'] }, { sites: ['Rev Comps'], urls: [], max_items: null, dry_run: false, force: false }],
+  ['duplicates and spaces', { sites: [' a ', 'a'] }, { sites: ['a'] }],
+  ['url canonicalised', { urls: ['https://x.test/competition/bmw-m4/?utm_source=fb#enter'] }, { urls: ['https://x.test/competition/bmw-m4'] }],
+  ['dry run with a budget', { sites: ['a'], dry_run: true, max_items: 20 }, { dry_run: true, max_items: 20 }],
+  ['nothing to crawl', { dry_run: true }, 400],
+  ['sites not a list', { sites: 'Rev Comps' }, 400],
+  ['empty site name', { sites: [''] }, 400],
+  ['not a URL', { urls: ['rev comps'] }, 400],
+  ['not http', { urls: ['ftp://x.test/a'] }, 400],
+  ['zero budget', { sites: ['a'], max_items: 0 }, 400],
+  ['fractional budget', { sites: ['a'], max_items: 2.5 }, 400],
+];
+
+const { check, done } = suite('requests');
+
+check('isTargeted', () => {
+  assert.equal(isTargeted({ query: 'rolex', tier: 'premium' }), false);
+  assert.equal(isTargeted({ query: 'rolex', force: true }), false);
+  assert.equal(isTargeted({ urls: [] }), true);
+  assert.equal(isTargeted({ dry_run: false }), true);
+  assert.equal(isTargeted(null), false);
+});
+
+check('requestStatus', () => {
+  const busy = [{ site: 'b', reason: 'a crawl of this site is already running' }];
+  assert.equal(requestStatus([{ status: 'done' }, { status: 'running' }], []), 'running');
+  assert.equal(requestStatus([{ status: 'done' }, { status: 'done' }], []), 'done');
+  assert.equal(requestStatus([{ status: 'done' }, { status: 'error' }], []), 'partial');
+  assert.equal(requestStatus([{ status: 'done' }], busy), 'partial');
+  assert.equal(requestStatus([{ status: 'error' }], []), 'error');
+  assert.equal(requestStatus([], busy), 'error');
+});
+
+for (const [name, body, expected] of CASES) {
+  check(name, () => {
+    if (typeof expected === 'number') {
+      assert.throws(() => parseCrawlRequest(body), (e) => e instanceof CrawlRequestError && e.status === expected);
+    } else {
+      const params = parseCrawlRequest(body);
+      for (const [k, v] of Object.entries(expected)) assert.deepEqual(params[k as keyof CrawlRequestParams], v, k);
+    }
+  });
+}
+
+done();
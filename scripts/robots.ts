@@ -0,0 +1,90 @@
+// scripts/robots.ts
+// robots.txt matching and the crawl policy's fetch-failure rules (run as part of `npm test`).
+import assert from 'node:assert/strict';
+import { createCrawlPolicy, isAllowedBy, parseRobots } from '../lib/scrape/robots';
+import { HttpError } from '../lib/scrape/fetch';
+import { suite } from './harness';
+
+const BOT = 'PrizeWolfBot/1.0 (+mailto:ops@example.com)';
+const OTHER = 'SomeOtherBot/2.0';
+
+const ROBOTS = `
+# comments and blank lines are ignored
+User-agent: *
+Disallow: /cart/
+Disallow: /*?add-to-cart=
+Allow: /cart/help
+Crawl-delay: 2
+
+User-agent: prizewolfbot
+User-agent: anotherbot
+Disallow: /my-account
+Disallow: /*.pdf$
+Allow: /my-account/public
+Crawl-delay: 5
+
+User-agent: badbot
+Disallow: /
+`;
+
+type Case = [name: string, ua: string, url: string, allowed: boolean, delayMs?: number];
+
+const CASES: Case[] = [
+  // our own group replaces "*" entirely
+  ['own group: /cart allowed', BOT, 'https://x.test/cart/', true, 5000],
+  ['own group: disallowed prefix', BOT, 'https://x.test/my-account/orders', false, 5000],
+  ['own group: longer allow wins', BOT, 'https://x.test/my-account/public/x', true],
+  ['own group: $ anchors the end', BOT, 'https://x.test/files/terms.pdf', false],
+  ['own group: $ needs the end', BOT, 'https://x.test/files/terms.pdf?v=2', true],
+  ['own group: anything else', BOT, 'https://x.test/competition/rolex/', true],
+
+  // everybody else falls back to "*"
+  ['*: disallowed', OTHER, 'https://x.test/cart/checkout', false, 2000],
+  ['*: allow longer than disallow', OTHER, 'https://x.test/cart/help', true],
+  ['*: wildcard in query', OTHER, 'https://x.test/product/a/?add-to-cart=12', false],
+  ['*: unlisted path', OTHER, 'https://x.test/my-account', true],
+  ['full disallow', 'BadBot', 'https://x.test/anything', false],
+  ['robots.txt itself', 'BadBot', 'https://x.test/robots.txt', true],
+];
+
+const { check, done } = suite('robots');
+
+const main = async () => {
+  const groups = parseRobots(ROBOTS);
+  for (const [name, ua, url, allowed, delayMs] of CASES) {
+    check(name, () => {
+      const v = isAllowedBy(groups, ua, url);
+      assert.equal(v.allowed, allowed, url);
+      if (delayMs != null) assert.equal(v.crawlDelayMs, delayMs, 'crawl delay');
+    });
+  }
+
+  check('empty Disallow allows everything', () => {
+    assert.equal(isAllowedBy(parseRobots('User-agent: *\nDisallow:\n'), BOT, 'https://x.test/a').allowed, true);
+  });
+
+  await check('robots.txt fetched once per host', async () => {
+    let fetches = 0;
+    const policy = createCrawlPolicy(async () => { fetches++; return ROBOTS; });
+    await Promise.all([
+      policy.check('https://x.test/a', BOT),
+      policy.check('https://x.test/b', BOT),
+      policy.check('https://x.test/c', OTHER),
+    ]);
+    assert.equal(fetches, 1);
+  });
+
+  await check('404 robots.txt: no restrictions', async () => {
+    const policy = createCrawlPolicy(async (url) => { throw new HttpError(404, url); });
+    assert.equal((await policy.check('https://x.test/cart/', BOT)).allowed, true);
+  });
+
+  await check('5xx robots.txt: crawl nothing', async () => {
+    const policy = createCrawlPolicy(async (url) => { throw new HttpError(503, url); });
+    assert.equal((await policy.check('https://x.test/competition/a', BOT)).allowed, false);
+  });
+
+  done();
+};
+
+main();
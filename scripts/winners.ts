@@ -0,0 +1,76 @@
+// scripts/winners.ts
+// Draw dates on a winners card, and which competition a result is tied to (run
+// as part of `npm test`).
+import assert from 'node:assert/strict';
+import { load } from 'cheerio';
+import { matchDrawResult, parseWinnersDefault, type DrawCandidate } from '../lib/scrape/winners';
+import type { DrawResult } from '../lib/scrape/types';
+import { suite } from './harness';
+
+const COMPS: DrawCandidate[] = [
+  { id: 'bmw', url: 'https://x.test/competition/bmw-m4', prize: 'Win a BMW M4 Competition + £2,000 Cash', status: 'draw_pending', ends_at: '2025-05-12T19:00:00Z' },
+  { id: 'cash-may', url: 'https://x.test/competition/5k-cash-may', prize: '£5,000 Tax Free Cash', status: 'sold_out', ends_at: '2025-05-28T20:00:00Z' },
+  { id: 'cash-june', url: 'https://x.test/competition/5k-cash-june', prize: '£5,000 Tax Free Cash', status: 'open', ends_at: '2025-06-25T20:00:00Z' },
+  { id: 'cash-april', url: 'https://x.test/competition/5k-cash-april', prize: '£5,000 Tax Free Cash', status: 'drawn', ends_at: '2025-04-20T20:00:00Z' },
+  { id: 'rolex', url: 'https://x.test/competition/rolex', prize: 'Rolex Submariner 126610LN', status: 'open', ends_at: null },
+  { id: 'ps5', url: 'https://x.test/competition/ps5-pro', prize: 'PlayStation 5 Pro Bundle', status: 'sold_out', ends_at: '2025-06-08T20:00:00Z' },
+  { id: 'weekly', url: 'https://x.test/competition/1k-cash', prize: '£1,000 Cash', status: 'open', ends_at: '2025-05-25T20:00:00Z' },
+];
+
+// the crawl's clock: cash-june and ps5 haven't closed yet
+const NOW = new Date('2025-06-01T12:00:00Z').getTime();
+
+const result = (patch: Partial<DrawResult>): DrawResult => ({
+  prize: 'Unknown',
+  competition_url: null,
+  winning_ticket: '123',
+  winner: null,
+  drawn_at: null,
+  live_draw_url: null,
+  ...patch,
+});
+
+type Case = [name: string, patch: Partial<DrawResult>, expected: string | null, by?: 'url' | 'title'];
+
+const CASES: Case[] = [
+  ['linked competition', { prize: 'Something else entirely', competition_url: 'https://x.test/competition/bmw-m4' }, 'bmw', 'url'],
+  ['link to a page we never stored', { prize: 'BMW M4 Competition', competition_url: 'https://x.test/competition/gone' }, 'bmw', 'title'],
+  ['reworded title', { prize: 'BMW M4 Competition' }, 'bmw', 'title'],
+  ['rerun prize, nearest close to the draw', { prize: '£5,000 Tax-Free Cash', drawn_at: '2025-05-28T21:00:00Z' }, 'cash-may', 'title'],
+  ['rerun prize, the April draw', { prize: '£5,000 Tax-Free Cash', drawn_at: '2025-04-20T21:00:00Z' }, 'cash-april', 'title'],
+  ['rerun prize, no date: not the open one', { prize: '£5,000 Tax-Free Cash' }, 'cash-may', 'title'],
+  ['closes after the draw', { prize: '£5,000 Tax-Free Cash', drawn_at: '2025-03-01T12:00:00Z' }, null],
+  ['open, no ends_at: never by title', { prize: 'Rolex Submariner', drawn_at: '2025-05-01T12:00:00Z' }, null],
+  ['open, linked: by URL', { prize: 'Rolex Submariner', competition_url: 'https://x.test/competition/rolex' }, 'rolex', 'url'],
+  ['sold out, closes later: not yet', { prize: 'PlayStation 5 Pro Bundle', drawn_at: '2025-06-09T12:00:00Z' }, null],
+  ['weekly rerun still open: not last week\'s winner', { prize: '£1,000 Cash', drawn_at: '2025-05-25T21:00:00Z' }, null],
+  ['unrelated prize', { prize: 'Audi RS6 Avant' }, null],
+];
+
+const { check, done } = suite('winners');
+
+for (const [name, patch, expected, by] of CASES) {
+  check(name, () => {
+    const match = matchDrawResult(result(patch), COMPS, NOW);
+    assert.deepEqual(match, expected ? { competition_id: expected, matched_by: by } : null);
+  });
+}
+
+// "Drawn 2 hours ago" is no date we can use, not a countdown moved back a year
+type DrawnCase = [name: string, text: string, expected: string | null];
+
+const DRAWN_CASES: DrawnCase[] = [
+  ['draw date', 'Draw date: 28/05/2025', '2025-05-28T11:00:00.000Z'],
+  ['"ago"', 'Drawn 2 hours ago', null],
+  ['"ago" in units', 'Drawn 1d 4h ago', null],
+];
+
+for (const [name, text, expected] of DRAWN_CASES) {
+  check(name, () => {
+    const $ = load(`<ul class="winners-list"><li class="winner-card"><h3>BMW M4</h3> <p>Ticket #12</p> <p>${text}</p></li></ul>`);
+    const [card] = parseWinnersDefault($, 'https://x.test/winners', () => true, undefined, { timezone: 'Europe/London', now: new Date(NOW) });
+    assert.equal(card?.drawn_at, expected);
+  });
+}
+
+done();
@@ -0,0 +1,13 @@
+-- 007_seed_more_sites.sql
+-- 7Days Performance + Elite Competitions (adapters: lib/scrape/adapters/sevenDays.ts, elite.ts)
+
+insert into public.sites (name, list_url, link_selector, adapter_key, tier, enabled)
+values
+('7Days Performance','https://7daysperformance.co.uk/competitions/','a[href*="/competitions/"]','sevendays','premium', true),
+('Elite Competitions','https://elitecompetitions.co.uk/competitions','a[href*="/competitions/"]','elite','premium', true)
+on conflict (name) do update
+  set list_url = excluded.list_url,
+      link_selector = excluded.link_selector,
+      adapter_key = excluded.adapter_key,
+      tier = excluded.tier,
+      enabled = excluded.enabled;
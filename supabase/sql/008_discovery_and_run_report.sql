@@ -0,0 +1,24 @@
+-- 008_discovery_and_run_report.sql
+-- Per-site discovery config (pagination, load-more, sitemap, budgets) and
+-- found-vs-processed reporting on scrape_runs. See DiscoveryCfg in lib/scrape/types.ts.
+
+alter table public.sites
+  add column if not exists discovery jsonb not null default '{}'::jsonb;
+
+alter table public.scrape_runs
+  add column if not exists links_found int,
+  add column if not exists links_processed int,
+  add column if not exists pages_crawled int;
+
+-- Rev Comps is WooCommerce + Yoast: the product sitemap lists every live competition
+update public.sites
+  set discovery = jsonb_build_object(
+    'page_template', 'page/{page}/',
+    'sitemap_url', 'https://www.revcomps.com/product-sitemap.xml',
+    'max_pages', 15
+  )
+  where name = 'Rev Comps';
+
+update public.sites
+  set discovery = jsonb_build_object('max_pages', 5)
+  where name = 'Dream Car Giveaways';
@@ -0,0 +1,35 @@
+-- 009_competition_snapshots.sql
+-- Time series of every scrape, so upserts on competitions no longer lose history
+
+create table if not exists public.competition_snapshots (
+  id bigserial primary key,
+  competition_id uuid not null references public.competitions(id) on delete cascade,
+  scraped_at timestamptz not null default now(),
+  entry_fee numeric,
+  total_tickets int,
+  tickets_sold int,
+  remaining_tickets int generated always as (
+    case
+      when total_tickets is null then null
+      else greatest(total_tickets - coalesce(tickets_sold, 0), 0)
+    end
+  ) stored,
+  is_closed boolean
+);
+
+create index if not exists idx_competition_snapshots_comp_time
+  on public.competition_snapshots (competition_id, scraped_at);
+
+alter table public.competition_snapshots enable row level security;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_policies where tablename = 'competition_snapshots' and policyname = 'read competition_snapshots (anon+auth)'
+  ) then
+    create policy "read competition_snapshots (anon+auth)"
+      on public.competition_snapshots
+      for select
+      to anon, authenticated
+      using (true);
+  end if;
+end $$;
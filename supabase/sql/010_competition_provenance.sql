@@ -0,0 +1,7 @@
+-- 010_competition_provenance.sql
+-- Which extraction strategy produced each field, with a confidence score:
+-- { prize|entry_fee|totals|ends_at: { source, confidence } } (see lib/scrape/provenance.ts)
+
+alter table public.competitions
+  add column if not exists provenance jsonb;
+
@@ -0,0 +1,28 @@
+-- 011_adapter_rules_v1.sql
+-- adapter_rules schema v1 (AdapterRulesV1 in lib/scrape/types.ts, validated in lib/scrape/rules.ts).
+-- The 002 seeds used keys the parser never read (price_patterns, price_window,
+-- priority_total, remaining, sold); rewrite them to the keys it does read.
+-- Patterns use single backslashes: with standard_conforming_strings, the 002
+-- seeds' '\\s' reached the regex as a literal backslash and never matched.
+
+alter table public.scrape_runs
+  add column if not exists warnings text[];
+
+insert into public.adapter_rules (adapter_key, rules)
+values
+('generic', jsonb_build_object(
+  'version', 1,
+  'price_min', 0.1,
+  'price_max', 50,
+  'total_patterns', jsonb_build_array('Number of Tickets\s*([\d,]+)','max of\s*([\d,]+)\s*tickets','([\d,]+)\s*entries'),
+  'sold_patterns',  jsonb_build_array('Tickets?\s*sold\s*([\d,]+)','Sold:\s*([\d,]+)')
+)),
+-- RevComps' MAX OF / SOLD: / REMAINING: phrases are built into its adapter
+('revcomps', jsonb_build_object(
+  'version', 1,
+  'fallback', jsonb_build_object(
+     'total_patterns', jsonb_build_array('Number of Tickets\s*([\d,]+)','max of\s*([\d,]+)\s*tickets','([\d,]+)\s*entries'),
+     'sold_patterns',  jsonb_build_array('Tickets?\s*sold\s*([\d,]+)','Sold:\s*([\d,]+)')
+  )
+))
+on conflict (adapter_key) do update set rules = excluded.rules, updated_at = now();
@@ -0,0 +1,19 @@
+-- 012_page_cache.sql
+-- Conditional fetching: ETag / Last-Modified + normalized content hash per detail
+-- URL (lib/scrape/pageCache.ts), and fetched/unchanged/parsed counts per run.
+
+create table if not exists public.page_cache (
+  url text primary key,
+  etag text,
+  last_modified text,
+  content_hash text,
+  checked_at timestamptz not null default now()
+);
+
+-- scraper-only (service key); no anon/auth policies
+alter table public.page_cache enable row level security;
+
+alter table public.scrape_runs
+  add column if not exists pages_fetched int,
+  add column if not exists pages_unchanged int,
+  add column if not exists pages_parsed int;
@@ -0,0 +1,34 @@
+-- 013_instant_wins.sql
+-- Instant-win prizes per competition (lib/scrape/instantWins.ts) plus counts on
+-- competitions so the results list doesn't need a join.
+
+create table if not exists public.competition_instant_wins (
+  id bigserial primary key,
+  competition_id uuid not null references public.competitions(id) on delete cascade,
+  prize text not null,
+  value numeric,
+  quantity int not null default 1,
+  claimed int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_competition_instant_wins_comp
+  on public.competition_instant_wins (competition_id);
+
+alter table public.competition_instant_wins enable row level security;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_policies where tablename = 'competition_instant_wins' and policyname = 'read competition_instant_wins (anon+auth)'
+  ) then
+    create policy "read competition_instant_wins (anon+auth)"
+      on public.competition_instant_wins
+      for select
+      to anon, authenticated
+      using (true);
+  end if;
+end $$;
+
+alter table public.competitions
+  add column if not exists instant_wins_total int,
+  add column if not exists instant_wins_remaining int;
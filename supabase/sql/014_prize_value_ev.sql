@@ -0,0 +1,13 @@
+-- 014_prize_value_ev.sql
+-- Stated prize value / cash alternative and expected value per ticket and per
+-- pound spent (lib/scrape/odds.ts: expectedValue).
+
+alter table public.competitions
+  add column if not exists prize_value numeric,
+  add column if not exists cash_alternative numeric,
+  add column if not exists ev_per_ticket numeric,
+  add column if not exists ev_per_pound numeric;
+
+create index if not exists idx_competitions_ev_per_pound
+  on public.competitions (ev_per_pound desc nulls last)
+  where is_closed = false;
@@ -0,0 +1,14 @@
+-- 015_currency.sql
+-- Entry fees keep the currency they were scraped in; entry_fee_gbp (converted
+-- with the local rate table in lib/scrape/currency.ts) is what lists sort on.
+
+alter table public.competitions
+  add column if not exists currency text not null default 'GBP',
+  add column if not exists entry_fee_gbp numeric;
+
+update public.competitions
+  set entry_fee_gbp = entry_fee
+  where entry_fee_gbp is null and currency = 'GBP';
+
+create index if not exists idx_competitions_entry_fee_gbp
+  on public.competitions (entry_fee_gbp);
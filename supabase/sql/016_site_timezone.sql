@@ -0,0 +1,6 @@
+-- 016_site_timezone.sql
+-- IANA timezone each site writes its close / draw times in. Wall-clock dates
+-- ("Ends 8pm Friday") are read in this zone and stored as UTC.
+
+alter table public.sites
+  add column if not exists timezone text not null default 'Europe/London';
@@ -0,0 +1,39 @@
+-- 017_canonical_urls_prize_groups.sql
+-- Competition URLs are stored canonical (lib/scrape/url.ts: no fragment, no
+-- tracking / variation params, no trailing slash) and carry a prize_key that
+-- groups the same prize across sites (lib/scrape/grouping.ts).
+
+alter table public.competitions
+  add column if not exists prize_key text;
+
+create index if not exists idx_competitions_prize_key
+  on public.competitions (prize_key)
+  where prize_key is not null;
+
+-- Existing rows: drop fragments and trailing slashes so the next crawl updates
+-- them instead of inserting a canonical twin. When several spellings (or the
+-- canonical row itself) exist, the others are closed as duplicates. prize_key
+-- is filled in as sites are re-scraped.
+create temporary table competition_canon as
+  select id, url, canon,
+         row_number() over (partition by canon order by (url = canon) desc, scraped_at desc nulls last) as rn
+  from (
+    select id, url, scraped_at,
+           regexp_replace(regexp_replace(url, '#.*$', ''), '([^/])/+(\?|$)', '\1\2') as canon
+    from public.competitions
+  ) s;
+
+update public.competitions c
+  set is_closed = true
+  from competition_canon k
+  where k.id = c.id and k.rn > 1;
+
+update public.competitions c
+  set url = k.canon
+  from competition_canon k
+  where k.id = c.id and k.rn = 1 and k.url <> k.canon;
+
+drop table competition_canon;
+
+-- page_cache is keyed by URL too: drop the old spellings
+delete from public.page_cache where url ~ '(#|[^/]/+(\?|$))';
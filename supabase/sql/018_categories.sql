@@ -0,0 +1,9 @@
+-- 018_categories.sql
+-- Prize categories (lib/scrape/categories.ts), primary first. Filled in at
+-- scrape time; rows scraped earlier stay empty until their site is re-crawled.
+
+alter table public.competitions
+  add column if not exists categories text[] not null default '{}';
+
+create index if not exists idx_competitions_categories
+  on public.competitions using gin (categories);
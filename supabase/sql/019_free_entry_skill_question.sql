@@ -0,0 +1,15 @@
+-- 019_free_entry_skill_question.sql
+-- Free (postal) entry route and skill question, read from the detail page
+-- (lib/scrape/entry.ts). has_free_entry is null when the source can't tell,
+-- e.g. rows that came from a store API without their HTML page.
+
+alter table public.competitions
+  add column if not exists has_free_entry boolean,
+  add column if not exists free_entry_address text,
+  add column if not exists free_entry_url text,
+  add column if not exists skill_question text,
+  add column if not exists skill_answers text[];
+
+create index if not exists idx_competitions_has_free_entry
+  on public.competitions (has_free_entry)
+  where has_free_entry;
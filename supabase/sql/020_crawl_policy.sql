@@ -0,0 +1,11 @@
+-- 020_crawl_policy.sql
+-- Crawl policy (lib/scrape/robots.ts): robots.txt is honoured for every request,
+-- each site can send its own identifiable user agent, and URLs robots.txt
+-- disallows are recorded on the run instead of being fetched.
+
+alter table public.sites
+  add column if not exists user_agent text; -- null = PrizeWolfBot default
+
+alter table public.scrape_runs
+  add column if not exists links_blocked int,
+  add column if not exists blocked_urls text[];
@@ -0,0 +1,40 @@
+-- 021_run_metrics.sql
+-- Structured per-run metrics (lib/scrape/metrics.ts) for the admin health page:
+-- HTTP status breakdown, parse failures, field coverage and duration. Admins
+-- can read every run and every site, disabled ones included.
+
+alter table public.scrape_runs
+  add column if not exists http_status jsonb,       -- { "200": 41, "404": 2, "network": 1 }
+  add column if not exists parse_failures int,
+  add column if not exists parse_failed_urls text[],
+  add column if not exists field_coverage jsonb,    -- { rows, entry_fee, totals, ends_at, prize_value }
+  add column if not exists duration_ms int;
+
+create index if not exists idx_scrape_runs_site_finished
+  on public.scrape_runs (site_id, finished_at desc);
+
+alter table public.scrape_runs enable row level security;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_policies where tablename = 'scrape_runs' and policyname = 'read scrape_runs (admins)'
+  ) then
+    create policy "read scrape_runs (admins)"
+      on public.scrape_runs
+      for select
+      to authenticated
+      using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.tier = 'admin'));
+  end if;
+end $$;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_policies where tablename = 'sites' and policyname = 'read sites (admins)'
+  ) then
+    create policy "read sites (admins)"
+      on public.sites
+      for select
+      to authenticated
+      using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.tier = 'admin'));
+  end if;
+end $$;
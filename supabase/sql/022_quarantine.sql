@@ -0,0 +1,95 @@
+-- 022_quarantine.sql
+-- Implausible scraped values (lib/scrape/anomalies.ts): tickets_sold going down,
+-- total_tickets changing, entry fee jumps, a different prize on the same URL.
+-- The row is held here instead of overwriting competitions; an admin approves
+-- (applies the proposed row) or rejects it with review_quarantine().
+
+create table if not exists public.competition_quarantine (
+  id bigserial primary key,
+  competition_id uuid not null references public.competitions(id) on delete cascade,
+  url text not null,
+  site_name text,
+  run_id bigint,
+  anomalies jsonb not null,   -- [{ kind, field, previous, value }]
+  fingerprint text not null,  -- field=value pairs; a rejected fingerprint isn't re-queued
+  previous jsonb,             -- stored values the parse was compared with
+  proposed jsonb not null,    -- the full competitions row the scrape wanted to write
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz,
+  reviewed_by uuid
+);
+
+create index if not exists idx_competition_quarantine_url_status
+  on public.competition_quarantine (url, status);
+create index if not exists idx_competition_quarantine_pending
+  on public.competition_quarantine (created_at) where status = 'pending';
+
+alter table public.scrape_runs
+  add column if not exists rows_held int;
+
+alter table public.competition_quarantine enable row level security;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_policies where tablename = 'competition_quarantine' and policyname = 'read competition_quarantine (admins)'
+  ) then
+    create policy "read competition_quarantine (admins)"
+      on public.competition_quarantine
+      for select
+      to authenticated
+      using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.tier = 'admin'));
+  end if;
+end $$;
+
+-- Approve: write the proposed values; reject: keep the stored ones
+create or replace function public.review_quarantine(p_id bigint, p_approve boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.competition_quarantine;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.tier = 'admin') then
+    raise exception 'admins only';
+  end if;
+
+  select * into q from public.competition_quarantine where id = p_id and status = 'pending' for update;
+  if not found then
+    raise exception 'no pending quarantine entry %', p_id;
+  end if;
+
+  if p_approve then
+    update public.competitions c
+      set prize = r.prize,
+          entry_fee = r.entry_fee,
+          currency = r.currency,
+          entry_fee_gbp = r.entry_fee_gbp,
+          total_tickets = r.total_tickets,
+          tickets_sold = r.tickets_sold,
+          is_closed = r.is_closed,
+          ends_at = r.ends_at,
+          prize_value = r.prize_value,
+          cash_alternative = r.cash_alternative,
+          ev_per_ticket = r.ev_per_ticket,
+          ev_per_pound = r.ev_per_pound,
+          prize_key = r.prize_key,
+          categories = r.categories,
+          provenance = r.provenance,
+          scraped_at = r.scraped_at
+      from jsonb_populate_record(null::public.competitions, q.proposed) r
+      where c.id = q.competition_id;
+  end if;
+
+  update public.competition_quarantine
+    set status = case when p_approve then 'approved' else 'rejected' end,
+        reviewed_at = now(),
+        reviewed_by = auth.uid()
+    where id = p_id;
+end;
+$$;
+
+revoke all on function public.review_quarantine(bigint, boolean) from public;
+grant execute on function public.review_quarantine(bigint, boolean) to authenticated;
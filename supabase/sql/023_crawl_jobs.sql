@@ -0,0 +1,95 @@
+-- 023_crawl_jobs.sql
+-- Resumable crawl queue (lib/scrape/jobs.ts). A job is one site's crawl; its
+-- tasks are the discovery step and one row per detail URL. Workers claim tasks
+-- under a lease with claim_crawl_tasks(); a lease that runs out (crashed or
+-- timed-out worker) makes the task claimable again until max attempts.
+-- Each processed batch appends its metrics, summed into scrape_runs at the end.
+
+create table if not exists public.crawl_jobs (
+  id bigserial primary key,
+  site_id uuid not null references public.sites(id) on delete cascade,
+  run_id bigint,
+  status text not null default 'running' check (status in ('running', 'done', 'error')),
+  force boolean not null default false,
+  links_found int,
+  links_processed int,
+  pages_crawled int,
+  error text,
+  created_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+-- at most one open job per site
+create unique index if not exists idx_crawl_jobs_open_site
+  on public.crawl_jobs (site_id) where status = 'running';
+create index if not exists idx_crawl_jobs_site_created
+  on public.crawl_jobs (site_id, created_at desc);
+
+create table if not exists public.crawl_tasks (
+  id bigserial primary key,
+  job_id bigint not null references public.crawl_jobs(id) on delete cascade,
+  kind text not null check (kind in ('discover', 'detail')),
+  url text, -- null for discover
+  status text not null default 'pending' check (status in ('pending', 'leased', 'done', 'failed')),
+  attempts int not null default 0,
+  lease_until timestamptz,
+  outcome text,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (job_id, url)
+);
+
+create index if not exists idx_crawl_tasks_claimable
+  on public.crawl_tasks (status, lease_until, id) where status in ('pending', 'leased');
+create index if not exists idx_crawl_tasks_job_status
+  on public.crawl_tasks (job_id, status);
+
+create table if not exists public.crawl_batches (
+  id bigserial primary key,
+  job_id bigint not null references public.crawl_jobs(id) on delete cascade,
+  metrics jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_crawl_batches_job
+  on public.crawl_batches (job_id);
+
+-- service key only: no policies
+alter table public.crawl_jobs enable row level security;
+alter table public.crawl_tasks enable row level security;
+alter table public.crawl_batches enable row level security;
+
+-- Lease up to p_limit tasks: pending ones, and leased ones whose lease ran out.
+-- Discovery goes first so a new job's URLs are queued before older detail work.
+create or replace function public.claim_crawl_tasks(p_limit int, p_lease_seconds int, p_max_attempts int)
+returns setof public.crawl_tasks
+language plpgsql
+as $$
+begin
+  -- leases that expired on their last attempt: the worker died on it every time
+  update public.crawl_tasks
+    set status = 'failed',
+        last_error = coalesce(last_error, 'lease expired'),
+        updated_at = now()
+    where status = 'leased' and lease_until < now() and attempts >= p_max_attempts;
+
+  return query
+  update public.crawl_tasks t
+    set status = 'leased',
+        attempts = t.attempts + 1,
+        lease_until = now() + make_interval(secs => p_lease_seconds),
+        updated_at = now()
+    where t.id in (
+      select c.id from public.crawl_tasks c
+      where (c.status = 'pending' or (c.status = 'leased' and c.lease_until < now()))
+        and c.attempts < p_max_attempts
+      order by c.kind <> 'discover', c.id
+      limit p_limit
+      for update skip locked
+    )
+    returning t.*;
+end;
+$$;
+
+revoke all on function public.claim_crawl_tasks(int, int, int) from public, anon, authenticated;
@@ -0,0 +1,57 @@
+-- 024_refresh_schedules.sql
+-- Refresh schedules (lib/scrape/schedule.ts): a full crawl per site every
+-- refresh_interval_minutes (null = tier default: premium-only sites every 4h,
+-- others daily), plus "refresh" jobs that re-fetch only the detail pages of
+-- competitions selling fast or closing soon.
+
+alter table public.sites
+  add column if not exists refresh_interval_minutes int
+    check (refresh_interval_minutes is null or refresh_interval_minutes > 0);
+
+alter table public.crawl_jobs
+  add column if not exists kind text not null default 'full'
+    check (kind in ('full', 'refresh'));
+
+create index if not exists idx_competitions_open_scraped
+  on public.competitions (scraped_at) where is_closed = false;
+
+-- Open competitions not scraped for p_stale_minutes that either close within
+-- p_ending_within_hours or sold at least p_sold_pct_per_day % of their tickets
+-- since the last snapshot a day or more ago. Soonest closing first.
+create or replace function public.competitions_due_refresh(
+  p_stale_minutes int,
+  p_sold_pct_per_day numeric,
+  p_ending_within_hours int,
+  p_limit int
+)
+returns table (url text, site_name text)
+language sql
+stable
+as $$
+  select c.url, c.site_name
+  from public.competitions c
+  left join lateral (
+    select s.tickets_sold, s.scraped_at
+    from public.competition_snapshots s
+    where s.competition_id = c.id
+      and s.tickets_sold is not null
+      and s.scraped_at <= now() - interval '1 day'
+    order by s.scraped_at desc
+    limit 1
+  ) prev on true
+  where c.is_closed = false
+    and c.scraped_at < now() - make_interval(mins => p_stale_minutes)
+    and (
+      c.ends_at between now() and now() + make_interval(hours => p_ending_within_hours)
+      or (
+        c.total_tickets > 0 and c.tickets_sold is not null and prev.tickets_sold is not null
+        and (c.tickets_sold - prev.tickets_sold)::numeric / c.total_tickets * 100
+            / greatest(extract(epoch from (c.scraped_at - prev.scraped_at)) / 86400, 1)
+            >= p_sold_pct_per_day
+      )
+    )
+  order by c.ends_at nulls last
+  limit p_limit;
+$$;
+
+revoke all on function public.competitions_due_refresh(int, numeric, int, int) from public, anon, authenticated;
@@ -0,0 +1,183 @@
+-- 025_competition_status.sql
+-- Lifecycle status (lib/scrape/lifecycle.ts) replaces the bare is_closed flag:
+-- open → sold_out / draw_pending → drawn, plus cancelled and removed (the
+-- detail page 404s). is_closed stays as a derived column so existing filters
+-- keep working; every status change is recorded in
+-- competition_status_transitions. Also defines the close_by_sellout /
+-- close_by_time helpers the cron route calls.
+
+alter table public.competitions
+  add column if not exists status text not null default 'open'
+    check (status in ('open', 'sold_out', 'draw_pending', 'drawn', 'cancelled', 'removed')),
+  add column if not exists status_reason text,
+  add column if not exists status_changed_at timestamptz;
+
+-- Backfill from the old flag: past the closing date → awaiting draw, no tickets
+-- left → sold out, anything else closed was a 404 or a duplicate URL (017)
+update public.competitions
+  set status = case
+        when ends_at < now() then 'draw_pending'
+        when remaining_tickets <= 0 then 'sold_out'
+        else 'removed'
+      end,
+      status_reason = 'migrated from is_closed',
+      status_changed_at = coalesce(scraped_at, now())
+  where is_closed = true and status = 'open';
+
+create index if not exists idx_competitions_status
+  on public.competitions (status);
+
+alter table public.competition_snapshots
+  add column if not exists status text;
+
+create table if not exists public.competition_status_transitions (
+  id bigserial primary key,
+  competition_id uuid not null references public.competitions(id) on delete cascade,
+  from_status text,           -- null for the first status of a new competition
+  to_status text not null,
+  reason text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists idx_competition_status_transitions_comp_time
+  on public.competition_status_transitions (competition_id, changed_at);
+
+alter table public.competition_status_transitions enable row level security;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_policies where tablename = 'competition_status_transitions' and policyname = 'read competition_status_transitions (anon+auth)'
+  ) then
+    create policy "read competition_status_transitions (anon+auth)"
+      on public.competition_status_transitions
+      for select
+      to anon, authenticated
+      using (true);
+  end if;
+end $$;
+
+-- status is the source of truth: is_closed and status_changed_at follow it
+create or replace function public.competitions_status_sync()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.is_closed := new.status <> 'open';
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    new.status_changed_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists competitions_status_sync on public.competitions;
+create trigger competitions_status_sync
+  before insert or update on public.competitions
+  for each row execute function public.competitions_status_sync();
+
+-- after, so the competition row exists for the foreign key
+create or replace function public.competitions_status_audit()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.competition_status_transitions (competition_id, from_status, to_status, reason, changed_at)
+    values (new.id, case when tg_op = 'UPDATE' then old.status end, new.status, new.status_reason, new.status_changed_at);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists competitions_status_audit on public.competitions;
+create trigger competitions_status_audit
+  after insert or update of status on public.competitions
+  for each row execute function public.competitions_status_audit();
+
+-- Open competitions with every ticket sold
+create or replace function public.close_by_sellout()
+returns int
+language plpgsql
+as $$
+declare
+  n int;
+begin
+  update public.competitions
+    set status = 'sold_out', status_reason = 'no tickets remaining'
+    where status = 'open' and total_tickets > 0 and remaining_tickets <= 0;
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+-- Past the closing date but not yet drawn
+create or replace function public.close_by_time()
+returns int
+language plpgsql
+as $$
+declare
+  n int;
+begin
+  update public.competitions
+    set status = 'draw_pending', status_reason = 'closing date passed'
+    where status in ('open', 'sold_out') and ends_at < now();
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+revoke all on function public.close_by_sellout() from public, anon, authenticated;
+revoke all on function public.close_by_time() from public, anon, authenticated;
+
+-- review_quarantine (022) wrote is_closed; write the status instead
+create or replace function public.review_quarantine(p_id bigint, p_approve boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.competition_quarantine;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.tier = 'admin') then
+    raise exception 'admins only';
+  end if;
+
+  select * into q from public.competition_quarantine where id = p_id and status = 'pending' for update;
+  if not found then
+    raise exception 'no pending quarantine entry %', p_id;
+  end if;
+
+  if p_approve then
+    update public.competitions c
+      set prize = r.prize,
+          entry_fee = r.entry_fee,
+          currency = r.currency,
+          entry_fee_gbp = r.entry_fee_gbp,
+          total_tickets = r.total_tickets,
+          tickets_sold = r.tickets_sold,
+          status = coalesce(r.status, c.status),
+          status_reason = case when r.status is null then c.status_reason else r.status_reason end,
+          ends_at = r.ends_at,
+          prize_value = r.prize_value,
+          cash_alternative = r.cash_alternative,
+          ev_per_ticket = r.ev_per_ticket,
+          ev_per_pound = r.ev_per_pound,
+          prize_key = r.prize_key,
+          categories = r.categories,
+          provenance = r.provenance,
+          scraped_at = r.scraped_at
+      from jsonb_populate_record(null::public.competitions, q.proposed) r
+      where c.id = q.competition_id;
+  end if;
+
+  update public.competition_quarantine
+    set status = case when p_approve then 'approved' else 'rejected' end,
+        reviewed_at = now(),
+        reviewed_by = auth.uid()
+    where id = p_id;
+end;
+$$;
+
+revoke all on function public.review_quarantine(bigint, boolean) from public;
+grant execute on function public.review_quarantine(bigint, boolean) to authenticated;
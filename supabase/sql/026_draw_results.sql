@@ -0,0 +1,101 @@
+-- 026_draw_results.sql
+-- Draw results from each site's winners page (lib/scrape/winners.ts). A result
+-- tied to a competition marks it drawn and resolves the user_entries marked on
+-- it, including entries marked after the result came in.
+
+alter table public.sites
+  add column if not exists winners_url text;  -- null = no winners page crawled
+
+create table if not exists public.draw_results (
+  id bigserial primary key,
+  competition_id uuid references public.competitions(id) on delete set null,
+  matched_by text check (matched_by in ('url', 'title')),
+  site_name text not null,
+  source_url text not null,     -- the winners page it was read from
+  competition_url text,         -- the card's link back to the competition
+  prize text not null,
+  winning_ticket text,
+  winner text,                  -- name or initials as published
+  drawn_at timestamptz,
+  live_draw_url text,
+  fingerprint text not null unique, -- site + prize + ticket + winner + draw day
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_draw_results_competition
+  on public.draw_results (competition_id);
+
+alter table public.user_entries
+  add column if not exists draw_result_id bigint references public.draw_results(id) on delete set null,
+  add column if not exists resolved_at timestamptz;
+
+alter table public.scrape_runs
+  add column if not exists draws_found int,
+  add column if not exists draws_matched int;
+
+alter table public.draw_results enable row level security;
+
+do $$ begin
+  if not exists (
+    select 1 from pg_policies where tablename = 'draw_results' and policyname = 'read draw_results (anon+auth)'
+  ) then
+    create policy "read draw_results (anon+auth)"
+      on public.draw_results
+      for select
+      to anon, authenticated
+      using (true);
+  end if;
+end $$;
+
+-- A matched result: the competition is drawn, entries on it are resolved
+-- (security definer: user_entries only lets users touch their own rows)
+create or replace function public.apply_draw_result()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.competition_id is null then
+    return null;
+  end if;
+
+  update public.competitions
+    set status = 'drawn', status_reason = 'result on winners page'
+    where id = new.competition_id and status <> 'drawn';
+
+  update public.user_entries
+    set draw_result_id = new.id,
+        resolved_at = coalesce(resolved_at, now())
+    where competition_id = new.competition_id
+      and draw_result_id is distinct from new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists draw_results_apply on public.draw_results;
+create trigger draw_results_apply
+  after insert or update of competition_id on public.draw_results
+  for each row execute function public.apply_draw_result();
+
+-- Marking an entry on a competition that has already been drawn
+create or replace function public.user_entries_resolve()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select d.id, now() into new.draw_result_id, new.resolved_at
+  from public.draw_results d
+  where d.competition_id = new.competition_id
+  order by d.drawn_at desc nulls last, d.id desc
+  limit 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_entries_resolve on public.user_entries;
+create trigger user_entries_resolve
+  before insert on public.user_entries
+  for each row execute function public.user_entries_resolve();
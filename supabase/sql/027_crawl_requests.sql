@@ -0,0 +1,51 @@
+-- 027_crawl_requests.sql
+-- Targeted scrapes (lib/scrape/requests.ts): POST /api/scrape with sites, urls,
+-- max_items or dry_run queues one crawl_jobs row per site under a
+-- crawl_requests row, whose id is polled at /api/scrape/runs/<id>. Dry runs
+-- parse and report without writing competitions; their rows are kept on
+-- crawl_batches.preview.
+
+create table if not exists public.crawl_requests (
+  id uuid primary key default gen_random_uuid(),
+  requested_by uuid references auth.users(id) on delete set null, -- null = cron key
+  params jsonb not null,   -- the request body as accepted
+  dry_run boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_crawl_requests_user_created
+  on public.crawl_requests (requested_by, created_at desc);
+
+alter table public.crawl_jobs
+  add column if not exists request_id uuid references public.crawl_requests(id) on delete cascade,
+  add column if not exists max_items int check (max_items is null or max_items > 0),
+  add column if not exists dry_run boolean not null default false;
+
+create index if not exists idx_crawl_jobs_request
+  on public.crawl_jobs (request_id) where request_id is not null;
+
+-- one scheduled job per site; requested ones run alongside it
+drop index if exists public.idx_crawl_jobs_open_site;
+create unique index if not exists idx_crawl_jobs_open_site
+  on public.crawl_jobs (site_id) where status = 'running' and request_id is null;
+
+alter table public.crawl_batches
+  add column if not exists preview jsonb; -- dry runs: what the batch would have written
+
+-- service key only: no policies
+alter table public.crawl_requests enable row level security;
+
+-- Task counts per job and status for a request's progress
+create or replace function public.crawl_request_progress(p_request_id uuid)
+returns table (job_id bigint, status text, n bigint)
+language sql
+stable
+as $$
+  select t.job_id, t.status, count(*)
+  from public.crawl_tasks t
+  join public.crawl_jobs j on j.id = t.job_id
+  where j.request_id = p_request_id
+  group by t.job_id, t.status;
+$$;
+
+revoke all on function public.crawl_request_progress(uuid) from public, anon, authenticated;
@@ -0,0 +1,13 @@
+-- 028_competition_min_confidence.sql
+-- Lowest confidence of the fields the "hide low confidence" filter covers
+-- (totals, entry_fee), so /results can filter before its page limit. Null when
+-- neither has provenance: rows scraped before 010 are treated as trusted.
+
+alter table public.competitions
+  add column if not exists min_confidence numeric
+  generated always as (
+    least(
+      (provenance->'totals'->>'confidence')::numeric,
+      (provenance->'entry_fee'->>'confidence')::numeric
+    )
+  ) stored;
@@ -0,0 +1,71 @@
+-- 029_quarantine_approve_full_row.sql
+-- review_quarantine (022, 025) approved only some of the proposed columns and
+-- wrote no snapshot, so an approved row differed from one that was never held.
+-- Approve now writes every column the scrape writes (the DbRow built in
+-- lib/scrape/siteCrawl.ts) and records a competition_snapshots row.
+
+create or replace function public.review_quarantine(p_id bigint, p_approve boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.competition_quarantine;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.tier = 'admin') then
+    raise exception 'admins only';
+  end if;
+
+  select * into q from public.competition_quarantine where id = p_id and status = 'pending' for update;
+  if not found then
+    raise exception 'no pending quarantine entry %', p_id;
+  end if;
+
+  if p_approve then
+    update public.competitions c
+      set prize = r.prize,
+          site_name = r.site_name,
+          entry_fee = r.entry_fee,
+          currency = r.currency,
+          entry_fee_gbp = r.entry_fee_gbp,
+          total_tickets = r.total_tickets,
+          tickets_sold = r.tickets_sold,
+          status = coalesce(r.status, c.status),
+          status_reason = case when r.status is null then c.status_reason else r.status_reason end,
+          ends_at = r.ends_at,
+          provenance = r.provenance,
+          instant_wins_total = r.instant_wins_total,
+          instant_wins_remaining = r.instant_wins_remaining,
+          prize_value = r.prize_value,
+          cash_alternative = r.cash_alternative,
+          ev_per_ticket = r.ev_per_ticket,
+          ev_per_pound = r.ev_per_pound,
+          prize_key = r.prize_key,
+          categories = r.categories,
+          has_free_entry = r.has_free_entry,
+          free_entry_address = r.free_entry_address,
+          free_entry_url = r.free_entry_url,
+          skill_question = r.skill_question,
+          skill_answers = r.skill_answers,
+          scraped_at = r.scraped_at
+      from jsonb_populate_record(null::public.competitions, q.proposed) r
+      where c.id = q.competition_id;
+
+    -- as lib/scrape/snapshots.ts does for rows written by a scrape
+    insert into public.competition_snapshots (competition_id, scraped_at, entry_fee, total_tickets, tickets_sold, is_closed, status)
+      select c.id, coalesce(c.scraped_at, now()), c.entry_fee, c.total_tickets, c.tickets_sold, c.is_closed, c.status
+      from public.competitions c
+      where c.id = q.competition_id;
+  end if;
+
+  update public.competition_quarantine
+    set status = case when p_approve then 'approved' else 'rejected' end,
+        reviewed_at = now(),
+        reviewed_by = auth.uid()
+    where id = p_id;
+end;
+$$;
+
+revoke all on function public.review_quarantine(bigint, boolean) from public;
+grant execute on function public.review_quarantine(bigint, boolean) to authenticated;
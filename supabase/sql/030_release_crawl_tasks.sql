@@ -0,0 +1,18 @@
+-- 030_release_crawl_tasks.sql
+-- Hand leased tasks back without spending an attempt: the worker sizes each
+-- job's share of a batch by the host's spacing (rate_limit_ms / Crawl-delay)
+-- and the time left, and releases what it won't get to (lib/scrape/jobs.ts).
+
+create or replace function public.release_crawl_tasks(p_ids bigint[])
+returns void
+language sql
+as $$
+  update public.crawl_tasks
+    set status = 'pending',
+        attempts = greatest(attempts - 1, 0),
+        lease_until = null,
+        updated_at = now()
+    where id = any(p_ids) and status = 'leased';
+$$;
+
+revoke all on function public.release_crawl_tasks(bigint[]) from public, anon, authenticated;
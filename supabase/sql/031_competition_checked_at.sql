@@ -0,0 +1,55 @@
+-- 031_competition_checked_at.sql
+-- When a scrape last confirmed each competition, changed or not. scraped_at only
+-- moves when a row is written, and unchanged pages (304 / same content hash,
+-- 012_page_cache.sql) skip the write. The refresh schedule and "last refreshed"
+-- read checked_at instead.
+
+alter table public.competitions
+  add column if not exists checked_at timestamptz;
+
+update public.competitions
+  set checked_at = scraped_at
+  where checked_at is null;
+
+drop index if exists public.idx_competitions_open_scraped;
+create index if not exists idx_competitions_open_checked
+  on public.competitions (checked_at) where is_closed = false;
+
+-- As in 024, with staleness measured from checked_at
+create or replace function public.competitions_due_refresh(
+  p_stale_minutes int,
+  p_sold_pct_per_day numeric,
+  p_ending_within_hours int,
+  p_limit int
+)
+returns table (url text, site_name text)
+language sql
+stable
+as $$
+  select c.url, c.site_name
+  from public.competitions c
+  left join lateral (
+    select s.tickets_sold, s.scraped_at
+    from public.competition_snapshots s
+    where s.competition_id = c.id
+      and s.tickets_sold is not null
+      and s.scraped_at <= now() - interval '1 day'
+    order by s.scraped_at desc
+    limit 1
+  ) prev on true
+  where c.is_closed = false
+    and coalesce(c.checked_at, c.scraped_at) < now() - make_interval(mins => p_stale_minutes)
+    and (
+      c.ends_at between now() and now() + make_interval(hours => p_ending_within_hours)
+      or (
+        c.total_tickets > 0 and c.tickets_sold is not null and prev.tickets_sold is not null
+        and (c.tickets_sold - prev.tickets_sold)::numeric / c.total_tickets * 100
+            / greatest(extract(epoch from (c.scraped_at - prev.scraped_at)) / 86400, 1)
+            >= p_sold_pct_per_day
+      )
+    )
+  order by c.ends_at nulls last
+  limit p_limit;
+$$;
+
+revoke all on function public.competitions_due_refresh(int, numeric, int, int) from public, anon, authenticated;
@@ -0,0 +1,6 @@
+-- 032_crawl_request_not_queued.sql
+-- Sites a targeted scrape couldn't queue a job for, and why (e.g. a crawl of
+-- the site already running), so the poll endpoint can report them.
+
+alter table public.crawl_requests
+  add column if not exists not_queued jsonb; -- [{ site, reason }]
@@ -0,0 +1,17 @@
+-- 033_min_confidence_ignore_missing.sql
+-- A field that wasn't found (source 'none') has no confidence, so it shouldn't
+-- drag min_confidence down and hide the row behind "hide low confidence". Rows
+-- written before this stored 0 for 'none'; the source check covers those too.
+
+alter table public.competitions drop column if exists min_confidence;
+
+alter table public.competitions
+  add column min_confidence numeric
+  generated always as (
+    least(
+      case when provenance->'totals'->>'source' = 'none' then null
+           else (provenance->'totals'->>'confidence')::numeric end,
+      case when provenance->'entry_fee'->>'source' = 'none' then null
+           else (provenance->'entry_fee'->>'confidence')::numeric end
+    )
+  ) stored;
@@ -0,0 +1,60 @@
+-- 034_canonical_url_params.sql
+-- 017 only dropped fragments and trailing slashes from existing URLs. Rows
+-- stored with tracking or variation parameters (?utm_source=…, ?variation_id=…)
+-- still differ from the canonicalUrl() spelling the crawler now writes, so a
+-- re-crawl inserts a twin. Finish the job here with the same rules as
+-- lib/scrape/url.ts, then close the duplicates as 017 did.
+
+-- Temporary: the crawler is the source of truth for canonical URLs, this only
+-- brings old rows in line once.
+create function pg_temp.canonical_url(p_url text)
+returns text
+language sql
+immutable
+as $$
+  with parts as (
+    select regexp_match(
+             split_part(btrim(p_url), '#', 1),
+             '^([A-Za-z][A-Za-z0-9+.-]*://)([^/?]*)([^?]*)(?:\?(.*))?$'
+           ) as m
+  ),
+  kept as (
+    select string_agg(kv, '&' order by split_part(kv, '=', 1) collate "C", n) as query
+    from parts, unnest(string_to_array(m[4], '&')) with ordinality as q(kv, n)
+    where kv <> ''
+      and split_part(kv, '=', 1) !~* ('^(utm_.*|fbclid|gclid|gbraid|wbraid|msclkid|dclid|mc_(cid|eid)|_ga|_gl'
+                                      || '|srsltid|igshid|ttclid|ref|source|aff(iliate)?(_id)?'
+                                      || '|variation(_id)?|attribute_.*|add-to-cart|quantity)$')
+  )
+  select case
+    when m is null then btrim(p_url) -- not a URL we can take apart: leave it
+    else m[1]
+      || regexp_replace(lower(m[2]), '\.(:[0-9]+)?$', '\1')
+      || coalesce(nullif(regexp_replace(regexp_replace(m[3], '/{2,}', '/', 'g'), '(.)/+$', '\1'), ''), '/')
+      || coalesce('?' || (select query from kept), '')
+  end
+  from parts;
+$$;
+
+create temporary table competition_canon as
+  select id, url, canon,
+         row_number() over (partition by canon order by (url = canon) desc, scraped_at desc nulls last) as rn
+  from (
+    select id, url, scraped_at, pg_temp.canonical_url(url) as canon
+    from public.competitions
+  ) s;
+
+update public.competitions c
+  set is_closed = true
+  from competition_canon k
+  where k.id = c.id and k.rn > 1;
+
+update public.competitions c
+  set url = k.canon
+  from competition_canon k
+  where k.id = c.id and k.rn = 1 and k.url <> k.canon;
+
+drop table competition_canon;
+
+-- page_cache is keyed by URL too: drop the old spellings
+delete from public.page_cache where url <> pg_temp.canonical_url(url);